@@ -16,16 +16,27 @@ import {
 import { SpeciesMarketplaceClient } from './species-client';
 import { ProfileTrayClient } from './profiletray-client';
 import { ConfirmationManager } from './confirmation-manager';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 
+// Only the session token is kept; the API secret is used once at startup and dropped
 interface SpeciesConfig {
   marketplaceApiUrl: string;
   profileTrayUrl: string;
   onliCloudUrl: string;
   apiKey?: string;
-  apiSecret?: string;
+  sessionToken?: string;
+  sessionExpiresAt?: string;
   environment: 'development' | 'staging' | 'production';
 }
 
+interface SessionToken {
+  sessionId: string;
+  token: string;
+  expiresAt: string;
+}
+
 export class SpeciesMCPServer {
   private server: Server;
   private speciesClient: SpeciesMarketplaceClient;
@@ -186,7 +197,7 @@ export class SpeciesMCPServer {
                   usdtAddress: { type: 'string' },
                   chain: { 
                     type: 'string',
-                    enum: ['TRON', 'ETH', 'BSC'] 
+                    enum: ['TRON', 'ETH', 'BSC', 'POLYGON', 'ARBITRUM', 'SOLANA', 'TON'] 
                   },
                 },
               },
@@ -748,6 +759,31 @@ ${status.error ? `- Error: ${status.error}` : ''}`;
   }
 }
 
+// Exchanges the API key + secret for a short-lived session token (one HMAC-signed call)
+async function createSession(marketplaceApiUrl: string, apiKey: string, secret: string): Promise<SessionToken> {
+  const body = JSON.stringify({ ttlSeconds: 900, audience: 'mcp-full' });
+  const nonce = uuidv4();
+  const timestamp = new Date().toISOString();
+  const signature = crypto.createHmac('sha256', secret).update(body + nonce + timestamp).digest('base64');
+
+  try {
+    const response = await axios.post(`${marketplaceApiUrl}/marketplace/v2/auth/sessions`, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': apiKey,
+        'X-Nonce': nonce,
+        'X-Timestamp': timestamp,
+        'X-Signature': signature,
+        'X-Event-Id': `ses-${Date.now()}-${uuidv4().substring(0, 8)}`
+      },
+      timeout: 30000
+    });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(`Session exchange failed: ${error.response?.data?.error?.message || error.message}`);
+  }
+}
+
 // Main entry point
 async function main() {
   const config: SpeciesConfig = {
@@ -755,9 +791,17 @@ async function main() {
     profileTrayUrl: process.env.PROFILETRAY_URL || 'https://profiletray.species.io',
     onliCloudUrl: process.env.ONLI_CLOUD_URL || 'https://api.onlicloud.com',
     apiKey: process.env.SPECIES_API_KEY,
-    apiSecret: process.env.SPECIES_API_SECRET,
     environment: (process.env.ENVIRONMENT as any) || 'development',
   };
+
+  // The secret never reaches the clients or outlives startup; restart once the session expires (AUTH011)
+  const apiSecret = process.env.SPECIES_API_SECRET;
+  delete process.env.SPECIES_API_SECRET;
+  if (config.apiKey && apiSecret) {
+    const session = await createSession(config.marketplaceApiUrl, config.apiKey, apiSecret);
+    config.sessionToken = session.token;
+    config.sessionExpiresAt = session.expiresAt;
+  }
   
   const server = new SpeciesMCPServer(config);
   await server.start();
@@ -0,0 +1,192 @@
+// generate-client.ts
+// Regenerates marketplace-client.generated.ts (schema types, per-operation request/response
+// types and path builders) from the Marketplace OpenAPI contract.
+// Usage: npm run generate:client -- [url-or-file]
+// Default source: SPECIES_OPENAPI_URL, else https://api.species.io/marketplace/v2/openapi.json
+
+import * as fs from 'fs';
+
+const OUTPUT = new URL('./marketplace-client.generated.ts', import.meta.url);
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// The subset of JSON Schema 2020-12 the Marketplace contract uses
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+interface Operation {
+  operationId?: string;
+  parameters?: Array<{ name: string; in: string; schema: JsonSchema }>;
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses?: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string };
+  paths: Record<string, Record<string, Operation>>;
+  components?: { schemas?: Record<string, JsonSchema> };
+}
+
+async function loadDocument(source: string): Promise<OpenApiDocument> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`GET ${source} returned ${response.status}`);
+    }
+    return response.json() as Promise<OpenApiDocument>;
+  }
+  return JSON.parse(fs.readFileSync(source, 'utf8'));
+}
+
+function indent(text: string): string {
+  return text.replace(/\n/g, '\n  ');
+}
+
+// '#/components/schemas/EventReceiptV2' → EventReceiptV2
+function typeOf(schema: JsonSchema): string {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop()!;
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.anyOf || schema.oneOf) {
+    return (schema.anyOf ?? schema.oneOf)!.map(member => typeOf(member)).join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map(member => typeOf(member)).join(' & ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => typeOf({ ...schema, type })).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const items = schema.items ? typeOf(schema.items) : 'unknown';
+      return /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+    }
+    case 'object':
+      return objectType(schema);
+    default:
+      return schema.properties ? objectType(schema) : 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema): string {
+  const required = new Set(schema.required ?? []);
+  const members = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+    return `${key}${required.has(name) ? '' : '?'}: ${typeOf(property)};`;
+  });
+  if (typeof schema.additionalProperties === 'object') {
+    members.push(`[key: string]: ${typeOf(schema.additionalProperties)};`);
+  } else if (schema.additionalProperties !== false && members.length === 0) {
+    return 'Record<string, unknown>';
+  }
+  return members.length === 0 ? '{}' : indent(`{\n${members.join('\n')}`) + '\n}';
+}
+
+function bodySchema(content?: Record<string, { schema: JsonSchema }>): JsonSchema | undefined {
+  return content?.['application/json']?.schema;
+}
+
+// One Operations entry: request body, query string and responses by status code
+function operationType(operation: Operation): string {
+  const members: string[] = [];
+  const request = bodySchema(operation.requestBody?.content);
+  if (request) {
+    members.push(`request: ${typeOf(request)};`);
+  }
+  const query = operation.parameters?.find(parameter => parameter.in === 'query');
+  if (query) {
+    members.push(`query: ${typeOf(query.schema)};`);
+  }
+  const responses = Object.entries(operation.responses ?? {}).map(([status, response]) => {
+    const schema = bodySchema(response.content);
+    return `${/^\d+$/.test(status) ? status : JSON.stringify(status)}: ${schema ? typeOf(schema) : 'void'};`;
+  });
+  members.push(`responses: ${responses.length ? indent(`{\n${responses.join('\n')}`) + '\n}' : '{}'};`);
+  return indent(`{\n${members.join('\n')}`) + '\n}';
+}
+
+// '/marketplace/v2/receipts/{eventId}' → (eventId: string) => `/marketplace/v2/receipts/${encodeURIComponent(eventId)}`
+function routeFunction(path: string): string {
+  const params = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+  if (params.length === 0) {
+    return `() => '${path}'`;
+  }
+  const template = path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${name})}`);
+  return `(${params.map(name => `${name}: string`).join(', ')}) => \`${template}\``;
+}
+
+async function main() {
+  const source = process.argv[2]
+    ?? process.env.SPECIES_OPENAPI_URL
+    ?? 'https://api.species.io/marketplace/v2/openapi.json';
+  const document = await loadDocument(source);
+
+  // Several operations share a path (GET/POST /events); each operationId gets its own entry
+  const routes: Array<[string, string]> = [];
+  const operations: Array<[string, string]> = [];
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation?.operationId) {
+        routes.push([operation.operationId, routeFunction(path)]);
+        operations.push([operation.operationId, operationType(operation)]);
+      }
+    }
+  }
+  if (routes.length === 0) {
+    throw new Error(`No operations found in ${source}`);
+  }
+
+  const schemas = Object.entries(document.components?.schemas ?? {})
+    .map(([name, schema]) => `export type ${name} = ${typeOf(schema)};`);
+
+  const output = `// marketplace-client.generated.ts
+// Generated by generate-client.ts from the ${document.info.title} contract - do not edit.
+// Regenerate with \`npm run generate:client\` when the Marketplace contract changes.
+
+// Component schemas
+${schemas.join('\n\n')}
+
+// Request, query and response bodies keyed by operationId
+export interface Operations {
+${operations.map(([operationId, type]) => `  ${operationId}: ${indent(type)};`).join('\n')}
+}
+
+// Paths keyed by operationId
+export const ROUTES = {
+${routes.map(([operationId, fn]) => `  ${operationId}: ${fn}`).join(',\n')}
+} as const;
+`;
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${schemas.length} schemas and ${routes.length} operations from ${source}`);
+}
+
+main().catch((error) => {
+  console.error('Client generation failed:', error.message);
+  process.exit(1);
+});
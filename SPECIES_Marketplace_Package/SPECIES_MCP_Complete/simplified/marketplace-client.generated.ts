@@ -0,0 +1,657 @@
+// marketplace-client.generated.ts
+// Generated by generate-client.ts from the SPECIES Marketplace API v2 contract - do not edit.
+// Regenerate with `npm run generate:client` when the Marketplace contract changes.
+
+// Component schemas
+export type Chain = string;
+
+export type QuoteRequest = {
+  from: string;
+  to: string;
+  amount: number;
+  listingId?: string;
+  chain?: Chain;
+  putProceeds?: {
+    usdtAddress: string;
+    chain: Chain;
+  };
+};
+
+export type Intent = "BUY_TREASURY" | "BUY_MARKET" | "SELL_MARKET" | "TRANSFER";
+
+export type QuotedFill = {
+  matchId: string;
+  sellerId: string;
+  listingId?: string;
+  fillAmount: number;
+  priceUsdt: number;
+};
+
+export type FeeBreakdown = {
+  listingFee?: number;
+  issuanceFee?: number;
+  liquidityFee?: number;
+  total: number;
+  currency: "USDT";
+};
+
+export type Quote = {
+  quoteId: string;
+  onliId: string;
+  request: QuoteRequest;
+  intent: Intent;
+  fills: QuotedFill[];
+  fees: FeeBreakdown;
+  subtotalUsdt: number;
+  totalUsdt: number;
+  status: "OPEN" | "COMMITTED" | "EXPIRED";
+  eventId?: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type QuoteRejected = {
+  quoteId?: string;
+  code: "QUOTE001" | "QUOTE002" | "QUOTE003" | "QUOTE004";
+  message: string;
+};
+
+export type ErrorResponse = {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+    timestamp: string;
+    event_id?: string;
+  };
+};
+
+export type EventRequestV2 = {
+  eventId: string;
+  from: string;
+  to: string;
+  amount: number;
+  payWith?: {
+    currency: "USDT";
+    chain: Chain;
+    proof?: string;
+    proofs?: string[];
+    feeProof?: string;
+  };
+  putProceeds?: {
+    usdtAddress: string;
+    chain: Chain;
+  };
+  quoteId?: string;
+  listingId?: string;
+  metadata?: {
+    note?: string;
+  };
+};
+
+export type AcceptedResponse = {
+  eventId: string;
+  status: "ACCEPTED";
+  trackingUrl: string;
+  estimatedCompletion?: string;
+};
+
+export type BatchEventRequestV2 = {
+  batchId: string;
+  items: EventRequestV2[];
+};
+
+export type BatchItemResult = {
+  index: number;
+  eventId: string;
+  status: "accepted" | "duplicate" | "conflict" | "rejected";
+  trackingUrl?: string;
+  error?: {
+    code: string;
+    message: string;
+    retryable?: boolean;
+  };
+  original?: BatchItemResult;
+};
+
+export type BatchAcceptedResponse = {
+  batchId: string;
+  results: BatchItemResult[];
+  counts: {
+    accepted: number;
+    duplicate: number;
+    conflict: number;
+    rejected: number;
+  };
+};
+
+export type CancelRequest = {
+  eventId: string;
+  reason?: string;
+};
+
+export type PipelineStage = "order.received" | "request.authenticated" | "order.validated" | "order.classified" | "order.matched" | "payment.requested" | "payment.confirmed" | "ownership.changed" | "order.completed";
+
+export type CancellationCompensation = "reservations.released" | "payment.voided" | "payment.refunded";
+
+export type OrderCancelled = {
+  topic: "order.cancelled";
+  eventId: string;
+  stage: PipelineStage;
+  compensations: CancellationCompensation[];
+  reason?: string;
+  ts: string;
+};
+
+export type CancelRejected = {
+  eventId: string;
+  code: "CANCEL001" | "CANCEL002" | "CANCEL003" | "CANCEL004";
+  stage?: PipelineStage;
+  message: string;
+};
+
+export type MatchProofSubmission = {
+  eventId: string;
+  matchId: string;
+  amount: number;
+  currency: "USDT";
+  chain: Chain;
+  proof: string;
+};
+
+export type TopUpProofSubmission = {
+  eventId: string;
+  amount: number;
+  currency: "USDT";
+  chain: Chain;
+  proof: string;
+};
+
+export type EventQuery = {
+  intent?: Array<"BUY_TREASURY" | "BUY_MARKET" | "SELL_MARKET" | "TRANSFER">;
+  status?: Array<"COMPLETED" | "FAILED" | "PENDING" | "CANCELLED" | "REVERTED" | "PROCESSING">;
+  createdFrom?: string;
+  createdTo?: string;
+  counterparty?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+};
+
+export type EventSummary = {
+  eventId: string;
+  intent?: "BUY_TREASURY" | "BUY_MARKET" | "SELL_MARKET" | "TRANSFER";
+  status: "COMPLETED" | "FAILED" | "PENDING" | "CANCELLED" | "REVERTED" | "PROCESSING";
+  stage: PipelineStage;
+  from: string;
+  to: string;
+  amount: number;
+  fees?: {
+    listing?: number;
+    issuance?: number;
+    liquidity?: number;
+    total: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EventPage = {
+  items: EventSummary[];
+  nextCursor?: string;
+};
+
+export type Fill = {
+  matchId: string;
+  eventId: string;
+  buyerId: string;
+  buyerVault?: string;
+  sellerId: string;
+  sellerVault?: string;
+  fillAmount: number;
+  listingId?: string;
+  requiresBuyerProof: boolean;
+  status: "PENDING" | "RESERVED" | "CONFIRMED" | "EXPIRED" | "CANCELLED";
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type PaymentRecord = {
+  provider: string;
+  paymentId?: string;
+  amount: number;
+  confirmations: number;
+  verifiedAt: string;
+};
+
+export type AssetReceipt = {
+  receiptId: string;
+  operation: string;
+  verifiedAt: string;
+};
+
+export type ReceiptParty = {
+  onliId: string;
+  vaultId?: string;
+  startBalance?: number;
+  endBalance?: number;
+};
+
+export type EventReceiptV2 = {
+  eventId: string;
+  status: "COMPLETED" | "FAILED" | "PENDING" | "CANCELLED" | "REVERTED";
+  intent: "BUY_TREASURY" | "BUY_MARKET" | "SELL_MARKET" | "TRANSFER";
+  amount: number;
+  fills: Fill[];
+  payments: PaymentRecord[];
+  assetReceipts: AssetReceipt[];
+  ledgerPostings: string[];
+  timestamps: {
+    received: string;
+    authenticated?: string;
+    validated?: string;
+    matched?: string;
+    settled?: string;
+    delivered?: string;
+    completed?: string;
+    cancelled?: string;
+  };
+  fees: {
+    listing?: number;
+    issuance?: number;
+    liquidity?: number;
+    total: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+    occurredAt: string;
+  };
+  cancellation?: {
+    stage: PipelineStage;
+    reason?: string;
+    compensations: CancellationCompensation[];
+  };
+  from: ReceiptParty;
+  to: ReceiptParty;
+};
+
+export type PipelineTopic = "order.received" | "order.cancelled" | "request.authenticated" | "order.validated" | "order.classified" | "order.matched" | "payment.requested" | "payment.confirmed" | "payment.partial" | "payment.credited" | "payment.reverted" | "ownership.changed" | "order.completed" | "auth.failed" | "payment.failed" | "transfer.failed" | "reconcile.failed";
+
+export type StreamEvent = {
+  id: string;
+  eventId: string;
+  topic: PipelineTopic;
+  data: Record<string, unknown>;
+  ts: string;
+};
+
+export type WebhookSubscriptionRequest = {
+  url: string;
+  topics: PipelineTopic[];
+};
+
+export type WebhookSubscription = {
+  subscriptionId: string;
+  onliId: string;
+  url: string;
+  topics: PipelineTopic[];
+  status: "ACTIVE" | "DISABLED";
+  secret?: string;
+  createdAt: string;
+};
+
+export type WebhookSubscriptionList = WebhookSubscription[];
+
+export type ApiKeyScope = "receipts:read" | "events:transfer" | "events:buy" | "events:listing" | "events:*";
+
+export type SessionTokenRequest = {
+  scopes?: ApiKeyScope[];
+  ttlSeconds?: number;
+  audience?: string;
+};
+
+export type SessionToken = {
+  sessionId: string;
+  token: string;
+  onliId: string;
+  apiKeyId: string;
+  scopes: ApiKeyScope[];
+  issuedAt: string;
+  expiresAt: string;
+};
+
+export type IssueApiKeyRequest = {
+  onliId: string;
+  signatureAlgorithm?: "HMAC-SHA256" | "Ed25519";
+  publicKey?: string;
+  scopes?: ApiKeyScope[];
+  maxAmount?: number;
+};
+
+export type ApiKeySummary = {
+  certificateFingerprints: string[];
+  apiKeyId: string;
+  onliId: string;
+  status: "ACTIVE" | "LOCKED" | "REVOKED";
+  scopes: ApiKeyScope[];
+  maxAmount?: number;
+  rateTier?: string;
+  signatureAlgorithm: SignatureAlgorithm;
+  createdAt: string;
+  lastUsed?: string;
+};
+
+export type SignatureAlgorithm = "HMAC-SHA256" | "Ed25519";
+
+export type ApiKeyResponse = ApiKeySummary;
+
+export type SecretRotation = {
+  apiKeyId: string;
+  currentRef: string;
+  previousRef?: string;
+  rotatedAt?: string;
+  graceEndsAt?: string;
+};
+
+export type CertificateBinding = {
+  fingerprintSha256: string;
+  apiKeyId: string;
+  onliId: string;
+  subjectDn: string;
+  notAfter: string;
+  createdAt: string;
+};
+
+export type WebhookDelivery = {
+  deliveryId: string;
+  subscriptionId: string;
+  eventId: string;
+  topic: PipelineTopic;
+  status: "PENDING" | "DELIVERED" | "RETRYING" | "DEAD_LETTER";
+  attempt: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+};
+
+export type WebhookDeliveryList = WebhookDelivery[];
+
+export type MarketplaceUser = {
+  marketplaceUserId: string;
+  onliId: string;
+  vaultId?: string;
+  apiKeyId?: string;
+  status: "ACTIVE" | "SUSPENDED" | "REVOKED" | "INVITED";
+  profileTrayRef?: string;
+  statusSource?: "admin" | "profileTray";
+  createdAt: string;
+  updatedAt: string;
+  lastSync?: string;
+};
+
+export type UserStatusChangeRequest = {
+  reason: string;
+};
+
+export type UserStatus = "ACTIVE" | "SUSPENDED" | "REVOKED" | "INVITED";
+
+export type UserStatusChange = {
+  topic: "user.status_changed";
+  changeId: string;
+  onliId: string;
+  from: UserStatus;
+  to: UserStatus;
+  reason: string;
+  actor: string;
+  source: "admin" | "profileTray";
+  ts: string;
+};
+
+export type UserStatusRejected = {
+  onliId: string;
+  code: "USER001" | "USER002";
+  status?: UserStatus;
+  message: string;
+};
+
+export type ApiKeySummaryList = ApiKeySummary[];
+
+export type UserStatusChangeList = UserStatusChange[];
+
+// Request, query and response bodies keyed by operationId
+export interface Operations {
+  createQuote: {
+    request: QuoteRequest;
+    responses: {
+      201: Quote;
+      403: QuoteRejected;
+      409: QuoteRejected;
+    };
+  };
+  getQuote: {
+    responses: {
+      200: Quote;
+      404: ErrorResponse;
+    };
+  };
+  queryEvents: {
+    query: EventQuery;
+    responses: {
+      200: EventPage;
+      400: ErrorResponse;
+    };
+  };
+  submitEventRequest: {
+    request: EventRequestV2;
+    responses: {
+      202: AcceptedResponse;
+      409: ErrorResponse;
+      422: QuoteRejected;
+    };
+  };
+  submitEventBatch: {
+    request: BatchEventRequestV2;
+    responses: {
+      202: BatchAcceptedResponse;
+    };
+  };
+  cancelEvent: {
+    request: CancelRequest;
+    responses: {
+      200: OrderCancelled;
+      409: CancelRejected;
+    };
+  };
+  submitMatchProof: {
+    request: MatchProofSubmission;
+    responses: {
+      202: AcceptedResponse;
+    };
+  };
+  submitTopUpProof: {
+    request: TopUpProofSubmission;
+    responses: {
+      202: AcceptedResponse;
+    };
+  };
+  getEventReceipt: {
+    responses: {
+      200: EventReceiptV2;
+      404: ErrorResponse;
+    };
+  };
+  streamEvent: {
+    responses: {
+      200: void;
+    };
+  };
+  streamEvents: {
+    responses: {
+      200: void;
+    };
+  };
+  listWebhooks: {
+    responses: {
+      200: WebhookSubscriptionList;
+    };
+  };
+  createWebhook: {
+    request: WebhookSubscriptionRequest;
+    responses: {
+      201: WebhookSubscription;
+    };
+  };
+  deleteWebhook: {
+    responses: {
+      204: void;
+    };
+  };
+  createSession: {
+    request: SessionTokenRequest;
+    responses: {
+      201: SessionToken;
+    };
+  };
+  revokeSession: {
+    responses: {
+      204: void;
+      404: ErrorResponse;
+    };
+  };
+  issueApiKey: {
+    request: IssueApiKeyRequest;
+    responses: {
+      201: ApiKeyResponse;
+    };
+  };
+  revokeApiKey: {
+    responses: {
+      204: void;
+    };
+  };
+  rotateApiSecret: {
+    responses: {
+      200: SecretRotation;
+      409: ErrorResponse;
+    };
+  };
+  unlockApiKey: {
+    responses: {
+      204: void;
+    };
+  };
+  bindClientCertificate: {
+    responses: {
+      201: CertificateBinding;
+    };
+  };
+  unbindClientCertificate: {
+    responses: {
+      204: void;
+    };
+  };
+  listWebhookDeliveries: {
+    responses: {
+      200: WebhookDeliveryList;
+    };
+  };
+  redeliverWebhook: {
+    responses: {
+      200: WebhookDelivery;
+    };
+  };
+  queryUserEvents: {
+    query: EventQuery;
+    responses: {
+      200: EventPage;
+      400: ErrorResponse;
+    };
+  };
+  getUserDetails: {
+    responses: {
+      200: MarketplaceUser;
+      404: ErrorResponse;
+    };
+  };
+  suspendUser: {
+    request: UserStatusChangeRequest;
+    responses: {
+      200: UserStatusChange;
+      404: UserStatusRejected;
+      409: UserStatusRejected;
+    };
+  };
+  reactivateUser: {
+    request: UserStatusChangeRequest;
+    responses: {
+      200: UserStatusChange;
+      404: UserStatusRejected;
+      409: UserStatusRejected;
+    };
+  };
+  revokeUser: {
+    request: UserStatusChangeRequest;
+    responses: {
+      200: UserStatusChange;
+      404: UserStatusRejected;
+      409: UserStatusRejected;
+    };
+  };
+  resyncUser: {
+    responses: {
+      200: MarketplaceUser;
+      404: ErrorResponse;
+    };
+  };
+  listUserApiKeys: {
+    responses: {
+      200: ApiKeySummaryList;
+    };
+  };
+  getUserStatusHistory: {
+    responses: {
+      200: UserStatusChangeList;
+    };
+  };
+}
+
+// Paths keyed by operationId
+export const ROUTES = {
+  createQuote: () => '/marketplace/v2/quotes',
+  getQuote: (quoteId: string) => `/marketplace/v2/quotes/${encodeURIComponent(quoteId)}`,
+  queryEvents: () => '/marketplace/v2/events',
+  submitEventRequest: () => '/marketplace/v2/events',
+  submitEventBatch: () => '/marketplace/v2/events/batch',
+  cancelEvent: (eventId: string) => `/marketplace/v2/events/${encodeURIComponent(eventId)}/cancel`,
+  submitMatchProof: (matchId: string) => `/marketplace/v2/matches/${encodeURIComponent(matchId)}/proof`,
+  submitTopUpProof: (eventId: string) => `/marketplace/v2/events/${encodeURIComponent(eventId)}/proofs`,
+  getEventReceipt: (eventId: string) => `/marketplace/v2/receipts/${encodeURIComponent(eventId)}`,
+  streamEvent: (eventId: string) => `/marketplace/v2/events/${encodeURIComponent(eventId)}/stream`,
+  streamEvents: () => '/marketplace/v2/stream',
+  listWebhooks: () => '/marketplace/v2/webhooks',
+  createWebhook: () => '/marketplace/v2/webhooks',
+  deleteWebhook: (subscriptionId: string) => `/marketplace/v2/webhooks/${encodeURIComponent(subscriptionId)}`,
+  createSession: () => '/marketplace/v2/auth/sessions',
+  revokeSession: (sessionId: string) => `/marketplace/v2/auth/sessions/${encodeURIComponent(sessionId)}`,
+  issueApiKey: () => '/marketplace/v2/admin/api-keys',
+  revokeApiKey: (apiKeyId: string) => `/marketplace/v2/admin/api-keys/${encodeURIComponent(apiKeyId)}`,
+  rotateApiSecret: (apiKeyId: string) => `/marketplace/v2/admin/api-keys/${encodeURIComponent(apiKeyId)}/rotate`,
+  unlockApiKey: (apiKeyId: string) => `/marketplace/v2/admin/api-keys/${encodeURIComponent(apiKeyId)}/unlock`,
+  bindClientCertificate: (apiKeyId: string) => `/marketplace/v2/admin/api-keys/${encodeURIComponent(apiKeyId)}/certificates`,
+  unbindClientCertificate: (fingerprintSha256: string) => `/marketplace/v2/admin/certificates/${encodeURIComponent(fingerprintSha256)}`,
+  listWebhookDeliveries: (subscriptionId: string) => `/marketplace/v2/admin/webhooks/${encodeURIComponent(subscriptionId)}/deliveries`,
+  redeliverWebhook: (deliveryId: string) => `/marketplace/v2/admin/webhooks/deliveries/${encodeURIComponent(deliveryId)}/redeliver`,
+  queryUserEvents: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/events`,
+  getUserDetails: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}`,
+  suspendUser: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/suspend`,
+  reactivateUser: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/reactivate`,
+  revokeUser: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/revoke`,
+  resyncUser: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/resync`,
+  listUserApiKeys: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/api-keys`,
+  getUserStatusHistory: (onliId: string) => `/marketplace/v2/admin/users/${encodeURIComponent(onliId)}/status-history`
+} as const;
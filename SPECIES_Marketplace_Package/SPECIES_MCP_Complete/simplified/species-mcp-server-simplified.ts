@@ -1,6 +1,7 @@
 // species-mcp-server-simplified.ts
 // SPECIES Marketplace MCP Server - Simplified Single-Call Architecture
-// User provides API key + secret, MCP makes authenticated calls and interprets receipts
+// User provides API key + secret, MCP exchanges them for a short-lived session token,
+// makes authenticated calls with the token and interprets receipts
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
@@ -15,95 +16,30 @@ import {
 import * as crypto from 'crypto';
 import axios, { AxiosInstance } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { ROUTES, Operations } from './marketplace-client.generated.js';
 
-interface UserCredentials {
-  apiKey: string;
-  secret: string;
-  marketplaceUrl?: string;
-}
+// The Validator's default chains config; the Marketplace rejects any it has not enabled (chain.unsupported)
+const SUPPORTED_CHAINS = ['TRON', 'ETH', 'BSC', 'POLYGON', 'ARBITRUM', 'SOLANA', 'TON'] as const;
+type Chain = typeof SUPPORTED_CHAINS[number];
 
-interface EventRequest {
-  eventId: string;
-  from: string;           // User's onliId
-  to: string;            // Recipient's onliId or 'treasury'
-  amount: number;        // SPECIES amount
-  payWith?: {
-    currency: 'USDT';
-    chain: 'TRON' | 'ETH' | 'BSC';
-    proof?: string;      // Payment proof (e.g., npmt_xxx or tx hash)
-    feeProof?: string;   // Separate fee payment proof if required
-  };
-  putProceeds?: {
-    usdtAddress: string;
-    chain: 'TRON' | 'ETH' | 'BSC';
-  };
-  metadata?: {
-    listingId?: string;
-    note?: string;
-  };
+// Only the session token is kept; the secret is used once for the exchange and dropped
+interface SessionCredentials {
+  apiKey: string;
+  sessionId?: string;
+  sessionToken: string;
+  expiresAt: string;
+  marketplaceUrl: string;
 }
 
-interface EventReceipt {
-  eventId: string;
-  status: 'COMPLETED' | 'FAILED' | 'PENDING' | 'PROCESSING';
-  intent: 'BUY_TREASURY' | 'BUY_MARKET' | 'SELL_MARKET' | 'TRANSFER';
-  from: {
-    onliId: string;
-    vaultId?: string;
-    startBalance?: number;
-    endBalance?: number;
-  };
-  to: {
-    onliId: string;
-    vaultId?: string;
-    startBalance?: number;
-    endBalance?: number;
-  };
-  amount: number;
-  fills?: Array<{
-    matchId: string;
-    buyerId: string;
-    sellerId: string;
-    fillAmount: number;
-    status: string;
-  }>;
-  payments?: Array<{
-    provider: string;
-    paymentId?: string;
-    amount: number;
-    confirmations: number;
-    verifiedAt: string;
-  }>;
-  assetReceipts?: Array<{
-    receiptId: string;
-    operation: string;
-    verifiedAt: string;
-  }>;
-  timestamps: {
-    received: string;
-    authenticated?: string;
-    validated?: string;
-    classified?: string;
-    matched?: string;
-    completed?: string;
-  };
-  fees?: {
-    listing?: number;
-    issuance?: number;
-    liquidity?: number;
-    total: number;
-  };
-  error?: {
-    code: string;
-    message: string;
-    occurredAt: string;
-  };
-  trackingUrl?: string;
-}
+// Request and response bodies come from the Marketplace v2 contract
+type SessionToken = Operations['createSession']['responses'][201];
+type EventRequest = Operations['submitEventRequest']['request'];
+type AcceptedResponse = Operations['submitEventRequest']['responses'][202];
+type EventReceipt = Operations['getEventReceipt']['responses'][200];
 
 export class SpeciesMCPServerSimplified {
   private server: Server;
-  private credentials: UserCredentials | null = null;
+  private credentials: SessionCredentials | null = null;
   private httpClient: AxiosInstance;
 
   constructor() {
@@ -136,10 +72,10 @@ export class SpeciesMCPServerSimplified {
       tools: [
         {
           name: 'species_configure',
-          description: 'Configure your SPECIES API credentials',
+          description: 'Configure your SPECIES API credentials (exchanged for a short-lived session token)',
           inputSchema: {
             type: 'object',
-            required: ['apiKey', 'secret'],
+            required: ['apiKey'],
             properties: {
               apiKey: {
                 type: 'string',
@@ -147,7 +83,16 @@ export class SpeciesMCPServerSimplified {
               },
               secret: {
                 type: 'string',
-                description: 'Your SPECIES secret (from ProfileTray)'
+                description: 'Your SPECIES secret (from ProfileTray); used once to create a session, never stored'
+              },
+              sessionToken: {
+                type: 'string',
+                description: 'An existing session token (sst_...) instead of a secret'
+              },
+              sessionTtlSeconds: {
+                type: 'number',
+                description: 'Requested session lifetime in seconds (server caps at 900)',
+                default: 600
               },
               marketplaceUrl: {
                 type: 'string',
@@ -187,7 +132,7 @@ export class SpeciesMCPServerSimplified {
               },
               chain: {
                 type: 'string',
-                enum: ['TRON', 'ETH', 'BSC'],
+                enum: [...SUPPORTED_CHAINS],
                 default: 'TRON',
                 description: 'Blockchain for payment'
               },
@@ -279,30 +224,83 @@ export class SpeciesMCPServerSimplified {
   }
 
   private async handleConfigure(args: any) {
-    const { apiKey, secret, marketplaceUrl = 'https://api.species.io' } = args;
+    const {
+      apiKey,
+      secret,
+      sessionToken,
+      sessionTtlSeconds = 600,
+      marketplaceUrl = 'https://api.species.io'
+    } = args;
     
-    if (!apiKey || !secret) {
-      throw new Error('API key and secret are required');
+    if (!apiKey || (!secret && !sessionToken)) {
+      throw new Error('API key and either a secret or a session token are required');
     }
     
-    this.credentials = {
-      apiKey,
-      secret,
-      marketplaceUrl
-    };
+    if (sessionToken) {
+      this.credentials = {
+        apiKey,
+        sessionToken,
+        // Unknown lifetime; the server rejects it with AUTH011 once expired
+        expiresAt: new Date(Date.now() + sessionTtlSeconds * 1000).toISOString(),
+        marketplaceUrl
+      };
+    } else {
+      const session = await this.createSession(apiKey, secret, sessionTtlSeconds, marketplaceUrl);
+      this.credentials = {
+        apiKey,
+        sessionId: session.sessionId,
+        sessionToken: session.token,
+        expiresAt: session.expiresAt,
+        marketplaceUrl
+      };
+    }
     
     return {
       content: [
         {
           type: 'text',
-          text: `Configuration successful. You can now create transactions using your credentials.
+          text: `Configuration successful. You can now create transactions using a session token.
 Marketplace URL: ${marketplaceUrl}
-API Key: ${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
+API Key: ${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}
+Session expires: ${this.formatTimestamp(this.credentials.expiresAt)}
+Your secret was not stored. Run species_configure again after the session expires.`
         }
       ]
     };
   }
 
+  private async createSession(
+    apiKey: string,
+    secret: string,
+    ttlSeconds: number,
+    marketplaceUrl: string
+  ): Promise<SessionToken> {
+    const body = JSON.stringify({ ttlSeconds, audience: 'mcp-simplified' });
+    const eventId = `ses-${Date.now()}-${uuidv4().substring(0, 8)}`;
+    const nonce = uuidv4();
+    const timestamp = new Date().toISOString();
+    
+    try {
+      const response = await this.httpClient.post(
+        `${marketplaceUrl}${ROUTES.createSession()}`,
+        body,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-API-Key': apiKey,
+            'X-Nonce': nonce,
+            'X-Timestamp': timestamp,
+            'X-Signature': this.createSignature(secret, body, nonce, timestamp),
+            'X-Event-Id': eventId
+          }
+        }
+      );
+      return response.data;
+    } catch (error: any) {
+      throw new Error(`Session exchange failed: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
   private async handleCreateTransaction(args: any) {
     if (!this.credentials) {
       throw new Error('Please configure your credentials first using species_configure');
@@ -327,15 +325,14 @@ API Key: ${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
       eventId,
       from,
       to,
-      amount,
-      metadata: {}
+      amount
     };
     
     // Add payment proof if provided (for BUY operations)
     if (paymentProof) {
       eventRequest.payWith = {
         currency: 'USDT',
-        chain: chain as 'TRON' | 'ETH' | 'BSC',
+        chain: chain as Chain,
         proof: paymentProof,
         feeProof: feeProof
       };
@@ -345,28 +342,28 @@ API Key: ${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
     if (usdtAddress) {
       eventRequest.putProceeds = {
         usdtAddress,
-        chain: chain as 'TRON' | 'ETH' | 'BSC'
+        chain: chain as Chain
       };
     }
     
     // Add listing ID if provided (for BUY_MARKET)
     if (listingId) {
-      eventRequest.metadata!.listingId = listingId;
+      eventRequest.listingId = listingId;
     }
     
-    // Create HMAC headers
-    const headers = this.createAuthHeaders(eventRequest, eventId);
+    // Create session-authenticated headers
+    const headers = this.createAuthHeaders(eventId);
     
     try {
       // Make the single API call
       const response = await this.httpClient.post(
-        `${this.credentials.marketplaceUrl}/marketplace/v1/events`,
+        `${this.credentials.marketplaceUrl}${ROUTES.submitEventRequest()}`,
         eventRequest,
         { headers }
       );
       
       // The API returns 202 Accepted with tracking info
-      const acceptedResponse = response.data;
+      const acceptedResponse: AcceptedResponse = response.data;
       
       return {
         content: [
@@ -408,18 +405,11 @@ ${usdtAddress ? `- Proceeds to: ${usdtAddress}` : ''}`
     }
     
     // Create headers for authenticated request
-    const nonce = uuidv4();
-    const timestamp = new Date().toISOString();
-    const headers = {
-      'X-API-Key': this.credentials.apiKey,
-      'X-Nonce': nonce,
-      'X-Timestamp': timestamp,
-      'X-Signature': this.createSignature('', nonce, timestamp)
-    };
+    const headers = this.createAuthHeaders();
     
     try {
       const response = await this.httpClient.get(
-        `${this.credentials.marketplaceUrl}/marketplace/v1/receipts/${eventId}`,
+        `${this.credentials.marketplaceUrl}${ROUTES.getEventReceipt(eventId)}`,
         { headers }
       );
       
@@ -458,35 +448,35 @@ ${usdtAddress ? `- Proceeds to: ${usdtAddress}` : ''}`
     };
   }
 
-  private createAuthHeaders(body: any, eventId: string): Record<string, string> {
+  private createAuthHeaders(eventId?: string): Record<string, string> {
     if (!this.credentials) {
       throw new Error('Credentials not configured');
     }
     
-    const nonce = uuidv4();
-    const timestamp = new Date().toISOString();
-    const bodyString = JSON.stringify(body);
+    if (new Date(this.credentials.expiresAt) <= new Date()) {
+      throw new Error('Session expired. Please run species_configure again');
+    }
     
-    return {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'X-API-Key': this.credentials.apiKey,
-      'X-Nonce': nonce,
-      'X-Timestamp': timestamp,
-      'X-Signature': this.createSignature(bodyString, nonce, timestamp),
-      'X-Event-Id': eventId
+      'Authorization': `Bearer ${this.credentials.sessionToken}`,
+      'X-Nonce': uuidv4(),
+      'X-Timestamp': new Date().toISOString()
     };
-  }
-
-  private createSignature(body: string, nonce: string, timestamp: string): string {
-    if (!this.credentials) {
-      throw new Error('Credentials not configured');
+    
+    if (eventId) {
+      headers['X-Event-Id'] = eventId;
     }
     
+    return headers;
+  }
+
+  private createSignature(secret: string, body: string, nonce: string, timestamp: string): string {
     // Create the message to sign: body + nonce + timestamp
     const message = body + nonce + timestamp;
     
     // Create HMAC-SHA256 signature
-    const hmac = crypto.createHmac('sha256', this.credentials.secret);
+    const hmac = crypto.createHmac('sha256', secret);
     hmac.update(message);
     
     // Return base64 encoded signature
@@ -495,7 +485,7 @@ ${usdtAddress ? `- Proceeds to: ${usdtAddress}` : ''}`
 
   private inferTransactionType(request: EventRequest): string {
     // Infer transaction type based on the request structure
-    if (request.metadata?.listingId) {
+    if (request.listingId) {
       return 'BUY_MARKET';
     }
     if (request.to === 'treasury' || request.to.includes('treasury')) {
@@ -595,14 +585,18 @@ Authenticated: ${this.formatTimestamp(receipt.timestamps.authenticated)}`;
     if (receipt.timestamps.validated) {
       interpretation += `
 Payment Validated: ${this.formatTimestamp(receipt.timestamps.validated)}`;
-    }
-    if (receipt.timestamps.classified) {
-      interpretation += `
-Intent Classified: ${this.formatTimestamp(receipt.timestamps.classified)}`;
     }
     if (receipt.timestamps.matched) {
       interpretation += `
 Order Matched: ${this.formatTimestamp(receipt.timestamps.matched)}`;
+    }
+    if (receipt.timestamps.settled) {
+      interpretation += `
+Payment Settled: ${this.formatTimestamp(receipt.timestamps.settled)}`;
+    }
+    if (receipt.timestamps.delivered) {
+      interpretation += `
+Asset Delivered: ${this.formatTimestamp(receipt.timestamps.delivered)}`;
     }
     if (receipt.timestamps.completed) {
       interpretation += `
@@ -627,13 +621,6 @@ Occurred At: ${this.formatTimestamp(receipt.error.occurredAt)}`;
 -----------
 ${this.generateSummary(receipt)}`;
 
-    // Add tracking URL if available
-    if (receipt.trackingUrl) {
-      interpretation += `
-
-🔗 Track Transaction: ${receipt.trackingUrl}`;
-    }
-
     return interpretation;
   }
 
@@ -642,7 +629,8 @@ ${this.generateSummary(receipt)}`;
       'COMPLETED': '✅ COMPLETED',
       'FAILED': '❌ FAILED',
       'PENDING': '⏳ PENDING',
-      'PROCESSING': '⚙️ PROCESSING'
+      'CANCELLED': '🚫 CANCELLED',
+      'REVERTED': '↩️ REVERTED'
     };
     return statusEmojis[status] || status;
   }
@@ -691,18 +679,11 @@ ${this.generateSummary(receipt)}`;
       throw new Error('Please configure your credentials first');
     }
     
-    const nonce = uuidv4();
-    const timestamp = new Date().toISOString();
-    const headers = {
-      'X-API-Key': this.credentials.apiKey,
-      'X-Nonce': nonce,
-      'X-Timestamp': timestamp,
-      'X-Signature': this.createSignature('', nonce, timestamp)
-    };
+    const headers = this.createAuthHeaders();
     
     try {
       const response = await this.httpClient.get(
-        `${this.credentials.marketplaceUrl}/marketplace/v1/receipts/${eventId}`,
+        `${this.credentials.marketplaceUrl}${ROUTES.getEventReceipt(eventId)}`,
         { headers }
       );
       
@@ -738,7 +719,8 @@ ${this.generateSummary(receipt)}`;
 If this is an authentication error, please ensure:
 1. Your API key is correct
 2. Your secret is correct
-3. The marketplace URL is accessible
+3. Your session has not expired (AUTH011)
+4. The marketplace URL is accessible
 
 Use species_configure to update your credentials.`
         }
@@ -2,36 +2,130 @@
 export const AuthenticatorSpecCard: NodeInspectorContent = {
   node: "Authenticator (v4.1)",
   
-  role: "Security gate and policy enforcer for the SPECIES Marketplace Appliance. Authenticates requests using the Marketplace-issued API Key and an HMAC signature created with the Secret kept in Species_ProfileTray. Resolves user presence/status via the Marketplace User Registry (synced from ProfileTray), then consults Onli Cloud AuthorizeBehavior to gate entry.",
+  role: "Security gate and policy enforcer for the SPECIES Marketplace Appliance. Authenticates requests using the Marketplace-issued API Key and a signature whose algorithm is bound to that key: HMAC-SHA256 with the Secret kept in Species_ProfileTray, or Ed25519 with the public key registered in the Marketplace User Registry. Institutional partners may instead present a verified mTLS client certificate whose fingerprint is bound to an onliId in the registry. Agents such as the MCP servers exchange a signed request for a short-lived, scoped, revocable session token and then call with a bearer token instead of holding the long-lived secret. Resolves user presence/status via the Marketplace User Registry (synced from ProfileTray), then consults Onli Cloud AuthorizeBehavior (or the local policy engine, per policy mode) to gate entry.",
   
   headers: [
     { key: "X-API-Key", value: "<marketplace_api_key>", comment: "issued by Marketplace" },
     { key: "X-Nonce", value: "<uuid-v4>", comment: "anti-replay (≤60s)" },
     { key: "X-Timestamp", value: "<RFC3339>", comment: "freshness window" },
-    { key: "X-Signature", value: "base64(HMAC-SHA256(rawBody, <secret_from_ProfileTray>))", comment: "" },
-    { key: "X-Event-Id", value: "<eventId>", comment: "idempotency key" }
+    { key: "X-Signature", value: "base64(HMAC-SHA256(rawBody, <secret_from_ProfileTray>)) | base64(Ed25519(rawBody, <client_private_key>))", comment: "algorithm bound to API key" },
+    { key: "X-Event-Id", value: "<eventId>", comment: "idempotency key" },
+    { key: "Authorization", value: "Bearer sst_<opaque>", comment: "session token; replaces X-API-Key/X-Signature until expiry" },
+    { key: "X-Client-Cert-SHA256", value: "<hex sha256 of client cert DER>", comment: "mTLS only; honoured from trusted TLS-terminating proxies, replaces X-API-Key/X-Signature" }
   ],
   
   logic: [
-    "1) Lookup API key in Marketplace User Registry → fetch {onliId, status, vaultId?, profileTrayRef?}",
-    "2) Check cache for secret; if miss, server-to-server lookup of Secret via ProfileTrayRef",
-    "3) Verify HMAC signature with secret + validate nonce uniqueness (60s) + timestamp freshness",
+    "1) Lookup API key in Marketplace User Registry (mTLS: verified cert fingerprint → CertificateBinding → API key; bearer: session → API key with session scopes, AUTH011 if expired/revoked; both skip signature checks in 2-3) → fetch {onliId, status, vaultId?, profileTrayRef?, signatureAlgorithm, publicKey?}; reject locked keys or blocked source IPs with AUTH010",
+    "2) HMAC-SHA256 keys: check cache for secrets {current, previous?}; if miss, server-to-server lookup via ProfileTrayRef. Ed25519 keys: use registered publicKey (no secret lookup)",
+    "3) Verify signature with the key's algorithm (HMAC: current secret, then previous while inside the rotation grace window) + validate nonce uniqueness (60s) + timestamp freshness",
     "4) Check Marketplace user status ∈ {ACTIVE}; else reject with AUTH003",
-    "5) Check rate limits: global (1000 rps) and per-key (10 rps)",
-    "6) Call Onli Cloud AuthorizeBehavior(subject={onliId}, action='marketplace:eventRequest', context={eventId})",
-    "7) If decision=ALLOW → emit 'request.authenticated' and cache result (5 min TTL)",
-    "8) Else → emit 'auth.failed' with specific error code and stop",
-    "9) Store nonce in Redis with 60s TTL for replay protection",
-    "10) Update last_used timestamp for API key in database"
+    "5) Check API key scopes against action, inferred intent and amount (maxAmount cap); else reject with AUTH009. Treasury destinations are inferred like the Classifier: name contains 'treasury', a configured treasury identifier, or a registry user whose role is treasury",
+    "6) Check rate limits for every configured dimension (global, apiKey, onliId, destination, intent, usdtVolume) using the key's tier (unknown tiers use 'default', seeded from rateLimiter.global/perApiKey unless configured; tiers without a global rule inherit rateLimiter.global); all rules are evaluated and charged in one atomic store call, so a refused request consumes no quota; on breach reject with AUTH006 + RateLimit-*/Retry-After. usdtVolume is charged the quote's totalUsdt when quoteId is present, else amount × rateLimiter.unquotedUsdtPerSpecies; transfers move no USDT and skip it",
+    "7) Authorize per policy.mode: cloud-only → Onli Cloud AuthorizeBehavior(subject={onliId}, action, context={eventId, amount, to}); local-only → local policy engine (a 'treasury' destination matches any treasury destination as in step 5; a rule with maxAmount denies requests that carry no amount); local-fallback → Onli Cloud, local engine if Onli Cloud is unavailable or circuit open (else AUTH008)",
+    "8) If decision=ALLOW → emit 'request.authenticated' with credentialType and policyId prefixed by engine (onli: | local:), cache result (5 min TTL)",
+    "9) Else → emit 'auth.failed' with specific error code and stop",
+    "10) Store nonce in Redis with 60s TTL for replay protection",
+    "11) Update last_used timestamp for API key in database (and secretUsed for rotation tracking)",
+    "12) Rotation sweep: once graceEndsAt passes, purge the previous secret from cache and registry. A rotation while a grace window is still open is refused (clients may still sign with that previous secret) unless the admin passes purgePrevious, which revokes it explicitly",
+    "13) Session exchange: a signed (or mTLS) POST /auth/sessions from any key mints an opaque sst_ token (scopes ⊆ key scopes, events:* covering every events: scope; TTL ≤ sessions.maxTtl) stored hashed in Redis; revocation is limited to the caller's own sessions (same onliId and API key, else AUTH011) and deletes the token and its sessions:user:<onliId> entry",
+    "14) Record AUTH002/AUTH004 failures per key and source IP, and AUTH001 (unknown key) per source IP only; past threshold → lock key in registry or block the IP, emit 'auth.key_locked' with the codes actually seen in the window (unlock via admin API)",
+    "15) On 'user.status_changed' (admin lifecycle or ProfileTray sync) evict the user's cached profile, auth decisions and key secrets on every instance instead of waiting out the TTL; non-ACTIVE statuses also revoke the user's sessions",
+    "16) Batches: the batch signature is verified once, then authorizeItem runs steps 5-7 for every item with that item's amount, destination and inferred intent; a refused item is rejected on its own (AUTH009/AUTH006/AUTH007) without failing the batch"
   ],
   
   typescript: `// Interfaces
 export interface AuthHeaders {
-  'X-API-Key': string;
+  'X-API-Key'?: string;    // required unless mTLS or session token
   'X-Nonce': string;
   'X-Timestamp': string;
-  'X-Signature': string;
+  'X-Signature'?: string;  // required unless mTLS or session token
+  'Authorization'?: string; // 'Bearer sst_...'
   'X-Event-Id': string;
+  'X-Client-Cert-SHA256'?: string;
+}
+
+export type SignatureAlgorithm = 'HMAC-SHA256' | 'Ed25519';
+export type CredentialType = SignatureAlgorithm | 'mTLS' | 'session';
+
+// Peer certificate as verified by the TLS layer (or a trusted terminating proxy)
+export interface ClientCertificate {
+  fingerprintSha256: string;  // lowercase hex, DER-encoded cert
+  subjectDn: string;
+  issuerDn: string;
+  notAfter: Date;
+  verified: boolean;          // chain validated against mtls.caBundle
+}
+
+export interface CertificateBinding {
+  fingerprintSha256: string;
+  apiKeyId: string;           // scopes, tier and lockout come from this key record
+  onliId: string;
+  subjectDn: string;
+  notAfter: Date;
+  createdAt: Date;
+}
+
+export interface SessionTokenRequest {
+  scopes?: ApiKeyScope[];     // must be a subset of the API key's scopes; defaults to all
+  ttlSeconds?: number;        // clamped to sessions.maxTtl
+  audience?: string;          // e.g. 'mcp-simplified', for audit only
+}
+
+export interface SessionToken {
+  sessionId: string;
+  token: string;              // 'sst_' + 32 random bytes base64url; returned once
+  onliId: string;
+  apiKeyId: string;
+  scopes: ApiKeyScope[];
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// Stored under session:<sha256(token)>, TTL = expiresAt
+export interface SessionRecord {
+  sessionId: string;
+  apiKeyId: string;
+  onliId: string;
+  scopes: ApiKeyScope[];
+  audience?: string;
+  expiresAt: string;
+}
+
+export interface AuthRequestContext {
+  action?: AuthorizeBehaviorReq['action']; // default 'marketplace:eventRequest'
+  sourceIp?: string;
+  clientCert?: ClientCertificate;
+}
+
+export type ApiKeyScope =
+  | 'receipts:read'     // GET receipts only
+  | 'events:transfer'   // TRANSFER
+  | 'events:buy'        // BUY_TREASURY, BUY_MARKET
+  | 'events:listing'    // SELL_MARKET
+  | 'events:*';
+
+export interface ApiKeyCredential {
+  apiKeyId: string;
+  onliId: string;
+  status: 'ACTIVE' | 'LOCKED' | 'REVOKED';
+  scopes: ApiKeyScope[];
+  maxAmount?: number;    // per-request SPECIES cap
+  rateTier?: string;     // e.g. 'retail' | 'market_maker'; defaults to 'default'
+  signatureAlgorithm: SignatureAlgorithm;
+  publicKey?: string;    // base64 raw 32-byte Ed25519 public key (Ed25519 only)
+  profileTrayRef?: string; // secret reference (HMAC-SHA256 only)
+  createdAt: Date;
+  lastUsed?: Date;
+}
+
+export type SecretVersion = 'current' | 'previous';
+
+export interface SecretRotation {
+  apiKeyId: string;
+  currentRef: string;     // ProfileTray secret reference
+  previousRef?: string;   // present only during the grace window
+  rotatedAt?: Date;
+  graceEndsAt?: Date;
 }
 
 export interface MarketplaceUser {
@@ -46,7 +140,7 @@ export interface MarketplaceUser {
 
 export interface AuthorizeBehaviorReq {
   subject: { onliId: string };
-  action: 'marketplace:eventRequest';
+  action: 'marketplace:eventRequest' | 'marketplace:receiptRead' | 'marketplace:sessionCreate';
   context: { 
     eventId: string;
     amount?: number;
@@ -60,12 +154,30 @@ export interface AuthorizeBehaviorRes {
   policyId?: string;
 }
 
+export type PolicyMode = 'cloud-only' | 'local-only' | 'local-fallback';
+
+export interface LocalPolicyRule {
+  ruleId: string;
+  effect: 'ALLOW' | 'DENY';
+  priority: number;           // lower evaluates first
+  match: {
+    onliIds?: string[];
+    actions?: AuthorizeBehaviorReq['action'][];
+    maxAmount?: number;       // rule matches when amount ≤ maxAmount; a request without an amount is denied
+    destinations?: string[];  // 'to' onliIds, or 'treasury' (any treasury destination, step 5)
+    hoursUtc?: { from: number; to: number }; // [from, to) hour window
+  };
+}
+
 export interface AuthenticatedEvent {
   topic: 'request.authenticated';
   eventId: string;
   onliId: string;
   policyDecision: 'ALLOW';
-  policyId?: string;
+  credentialType: CredentialType;
+  apiKeyId: string;           // resolved key, whichever credential presented it
+  policyId?: string;          // 'onli:<policyId>' or 'local:<ruleId>'
+  secretUsed?: SecretVersion; // HMAC-SHA256 keys only
   ts: string;
 }
 
@@ -80,11 +192,157 @@ export interface AuthFailedEvent {
     | 'AUTH005' // Timestamp expired
     | 'AUTH006' // Rate limit exceeded
     | 'AUTH007' // Policy denied
-    | 'AUTH008' // Service unavailable;
+    | 'AUTH008' // Service unavailable
+    | 'AUTH009' // Scope not permitted for API key
+    | 'AUTH010' // API key locked or source IP blocked
+    | 'AUTH011'; // Session token expired or revoked
   reason?: string;
+  policyId?: string;          // AUTH007 only; same prefix convention
+  rateLimit?: RateLimitDecision; // AUTH006 only
+  ts: string;
+}
+
+export type LockoutCode = 'AUTH001' | 'AUTH002' | 'AUTH004';
+
+export interface KeyLockedEvent {
+  topic: 'auth.key_locked';
+  apiKeyId?: string;        // absent when an IP was blocked for probing unknown keys
+  onliId?: string;
+  trigger: 'apiKey' | 'sourceIp';
+  codes: LockoutCode[];     // seen in the window that tripped the threshold
+  failureCount: number;
+  windowSeconds: number;
+  sourceIp?: string;
   ts: string;
 }
 
+// Rate limiting
+export type RateLimitDimension = 'global' | 'apiKey' | 'onliId' | 'destination' | 'intent' | 'usdtVolume';
+
+export interface RateLimitRule {
+  dimension: RateLimitDimension;
+  algorithm: 'token-bucket' | 'sliding-window';
+  limit: number;          // requests, or USDT for usdtVolume
+  windowSeconds: number;  // refill period (token-bucket) or window length
+  burst?: number;         // token-bucket capacity, defaults to limit
+}
+
+export interface RateLimitContext {
+  apiKeyId: string;
+  onliId: string;
+  tier: string;
+  destination?: string;
+  intent?: string;
+  usdtAmount?: number;    // from Authenticator.usdtAmountFor; usdtVolume rules skipped when undefined
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  dimension?: RateLimitDimension; // most restrictive rule (lowest remaining/limit)
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds?: number;
+}
+
+export interface RateLimitCharge {
+  key: string;
+  rule: RateLimitRule;
+  cost: number;
+}
+
+// Backends: Redis (one Lua script checks every charge and commits them only if all allow, shared
+// across instances) or in-memory (single node, tests). Results are in charge order.
+export interface RateLimitStore {
+  consumeAll(charges: RateLimitCharge[]): Promise<Array<{ allowed: boolean; remaining: number; resetSeconds: number }>>;
+}
+
+// rateLimiter config section; requestsPerSecond/burstSize become token-bucket rules
+export interface RateLimiterConfig {
+  global: { requestsPerSecond: number; burstSize: number };
+  perApiKey: { requestsPerSecond: number; burstSize: number };
+  tiers: Record<string, RateLimitRule[]>;
+}
+
+export class RateLimiter {
+  private tiers: Record<string, RateLimitRule[]>;
+  private globalRule: RateLimitRule;
+  
+  constructor(
+    private store: RateLimitStore,
+    config: RateLimiterConfig
+  ) {
+    const bucket = (dimension: RateLimitDimension, { requestsPerSecond, burstSize }: RateLimiterConfig['global']): RateLimitRule =>
+      ({ dimension, algorithm: 'token-bucket', limit: requestsPerSecond, windowSeconds: 1, burst: burstSize });
+    this.globalRule = bucket('global', config.global);
+    // The shipped tiers only name retail/market_maker, so 'default' is built from global/perApiKey
+    this.tiers = { default: [this.globalRule, bucket('apiKey', config.perApiKey)], ...config.tiers };
+  }
+  
+  // dimension is unset when no rule applied; rateLimitHeaders then emits nothing
+  async check(ctx: RateLimitContext): Promise<RateLimitDecision> {
+    const charges: RateLimitCharge[] = [];
+    for (const rule of this.rulesFor(ctx.tier)) {
+      const subject = this.subjectFor(rule.dimension, ctx);
+      if (subject === undefined) continue;
+      const cost = rule.dimension === 'usdtVolume' ? ctx.usdtAmount! : 1;
+      charges.push({ key: \`rl:\${rule.dimension}:\${subject}\`, rule, cost });
+    }
+    if (charges.length === 0) {
+      return { allowed: true, limit: 0, remaining: 0, resetSeconds: 0 };
+    }
+    
+    const decisions: RateLimitDecision[] = (await this.store.consumeAll(charges)).map((result, i) => ({
+      allowed: result.allowed,
+      dimension: charges[i].rule.dimension,
+      limit: charges[i].rule.limit,
+      remaining: result.remaining,
+      resetSeconds: result.resetSeconds
+    }));
+    
+    // Retry-After must outlast every breached rule, not just the first
+    const breached = decisions.filter(decision => !decision.allowed);
+    if (breached.length > 0) {
+      const longest = breached.reduce((a, b) => (b.resetSeconds > a.resetSeconds ? b : a));
+      return { ...longest, retryAfterSeconds: longest.resetSeconds };
+    }
+    // Compare headroom as a fraction: 5 of 10 requests is tighter than 40,000 of 50,000 USDT
+    return decisions.reduce((a, b) => (b.remaining / b.limit < a.remaining / a.limit ? b : a));
+  }
+  
+  // The global limit protects the whole appliance, so a tier that omits it inherits rateLimiter.global
+  private rulesFor(tier: string): RateLimitRule[] {
+    const rules = this.tiers[tier] ?? this.tiers['default'];
+    if (rules.some(rule => rule.dimension === 'global')) return rules;
+    return [...rules, this.globalRule];
+  }
+  
+  private subjectFor(dimension: RateLimitDimension, ctx: RateLimitContext): string | undefined {
+    switch (dimension) {
+      case 'global': return 'all';
+      case 'apiKey': return ctx.apiKeyId;
+      case 'onliId': return ctx.onliId;
+      case 'destination': return ctx.destination;
+      case 'intent': return ctx.intent;
+      case 'usdtVolume': return ctx.usdtAmount !== undefined ? ctx.onliId : undefined;
+    }
+  }
+}
+
+// IETF RateLimit header fields returned with AUTH006 (and on allowed responses)
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  if (!decision.dimension) return {};
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(Math.max(0, Math.floor(decision.remaining))),
+    'RateLimit-Reset': String(Math.ceil(decision.resetSeconds))
+  };
+  if (decision.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(decision.retryAfterSeconds));
+  }
+  return headers;
+}
+
 // Service
 export class Authenticator {
   constructor(
@@ -92,22 +350,390 @@ export class Authenticator {
     private profileTray: ProfileTrayClient,
     private onliCloud: OnliCloudClient,
     private cache: CacheService,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private localPolicy: LocalPolicyEngine,
+    private lockout: LockoutDetector,
+    private sessionConfig: { defaultTtl: number; maxTtl: number },
+    private treasuryIdentifiers: string[],  // classifier.treasuryIdentifiers
+    private quotes: QuoteStore,
+    private unquotedUsdtPerSpecies: number, // rateLimiter.unquotedUsdtPerSpecies
+    private policyMode: PolicyMode = 'cloud-only'
   ) {}
   
   async authenticate(
     rawBody: string, 
-    headers: AuthHeaders
+    headers: AuthHeaders,
+    ctx: AuthRequestContext = {}
   ): Promise<AuthenticatedEvent | AuthFailedEvent> {
     // Implementation with caching, rate limiting, and circuit breaker
   }
+  
+  // Signed exchange → short-lived bearer token; the caller can then discard its secret
+  async createSession(
+    rawBody: string,
+    headers: AuthHeaders,
+    req: SessionTokenRequest,
+    ctx: AuthRequestContext = {}
+  ): Promise<SessionToken | AuthFailedEvent> {
+    const auth = await this.authenticate(rawBody, headers, { ...ctx, action: 'marketplace:sessionCreate' });
+    if (auth.topic === 'auth.failed') return auth;
+    if (auth.credentialType === 'session') {
+      return this.fail(headers['X-Event-Id'], 'AUTH009', 'Session tokens cannot mint sessions');
+    }
+    
+    // mTLS callers send no X-API-Key, so use the key authenticate resolved
+    const credential = await this.registry.getApiKey(auth.apiKeyId);
+    const scopes = req.scopes ?? credential.scopes;
+    if (!scopes.every(scope => this.grants(credential.scopes, scope))) {
+      return this.fail(headers['X-Event-Id'], 'AUTH009', 'Requested scopes exceed API key scopes');
+    }
+    
+    const ttl = Math.min(req.ttlSeconds ?? this.sessionConfig.defaultTtl, this.sessionConfig.maxTtl);
+    const token = 'sst_' + randomBytes(32).toString('base64url');
+    const record: SessionRecord = {
+      sessionId: generateUUID(),
+      apiKeyId: credential.apiKeyId,
+      onliId: credential.onliId,
+      scopes,
+      audience: req.audience,
+      expiresAt: new Date(Date.now() + ttl * 1000).toISOString()
+    };
+    await this.cache.set(\`session:\${sha256(token)}\`, record, ttl);
+    await this.cache.set(\`session-id:\${record.sessionId}\`, sha256(token), ttl);
+    await this.cache.sadd(\`sessions:user:\${record.onliId}\`, record.sessionId);
+    
+    return { ...record, token, issuedAt: new Date().toISOString() };
+  }
+  
+  // caller is absent for internal revocations (user.status_changed)
+  async revokeSession(
+    sessionId: string,
+    caller?: Pick<AuthenticatedEvent, 'eventId' | 'onliId' | 'apiKeyId'>
+  ): Promise<AuthFailedEvent | null> {
+    const tokenHash = await this.cache.get(\`session-id:\${sessionId}\`);
+    const record: SessionRecord | null = tokenHash ? await this.cache.get(\`session:\${tokenHash}\`) : null;
+    // Someone else's session answers like an unknown one, so session ids cannot be probed
+    if (caller && (!record || record.onliId !== caller.onliId || record.apiKeyId !== caller.apiKeyId)) {
+      return this.fail(caller.eventId, 'AUTH011', 'Session not found');
+    }
+    
+    if (tokenHash) await this.cache.delete(\`session:\${tokenHash}\`);
+    await this.cache.delete(\`session-id:\${sessionId}\`);
+    if (record) await this.cache.srem(\`sessions:user:\${record.onliId}\`, sessionId);
+    return null;
+  }
+  
+  // Bearer path: session scopes replace the key's scopes for step 5
+  private async resolveSession(authorization: string): Promise<ApiKeyCredential | null> {
+    const token = authorization.replace(/^Bearer /, '');
+    const record: SessionRecord | null = await this.cache.get(\`session:\${sha256(token)}\`);
+    if (!record || new Date(record.expiresAt) <= new Date()) return null;
+    const credential = await this.registry.getApiKey(record.apiKeyId);
+    return credential.status === 'ACTIVE' ? { ...credential, scopes: record.scopes } : null;
+  }
+  
+  // mTLS path: certificate replaces API key + signature; everything after step 3 is unchanged
+  private async resolveCertificate(cert: ClientCertificate): Promise<ApiKeyCredential | null> {
+    if (!cert.verified || cert.notAfter <= new Date()) return null;
+    const binding = await this.registry.getCertificateBinding(cert.fingerprintSha256);
+    if (!binding || binding.notAfter <= new Date()) return null;
+    return this.registry.getApiKey(binding.apiKeyId);
+  }
+  
+  // Steps 5-7 for one item of a batch: authenticate checked the batch signature once, but every
+  // item is scoped, charged and authorized with its own amount and destination
+  async authorizeItem(credential: ApiKeyCredential, item: EventRequest): Promise<AuthFailedEvent | null> {
+    if (!await this.checkScope(credential, 'marketplace:eventRequest', item)) {
+      return this.fail(item.eventId, 'AUTH009', 'Scope not permitted for API key');
+    }
+    
+    const scope = await this.requiredScope('marketplace:eventRequest', item);
+    const rateLimit = await this.rateLimiter.check({
+      apiKeyId: credential.apiKeyId,
+      onliId: credential.onliId,
+      tier: credential.rateTier ?? 'default',
+      destination: item.to,
+      intent: scope ?? undefined,
+      usdtAmount: await this.usdtAmountFor(item, scope)
+    });
+    if (!rateLimit.allowed) {
+      return { ...this.fail(item.eventId, 'AUTH006', \`Rate limit exceeded (\${rateLimit.dimension})\`), rateLimit };
+    }
+    
+    const policy = await this.authorize({
+      subject: { onliId: credential.onliId },
+      action: 'marketplace:eventRequest',
+      context: { eventId: item.eventId, amount: item.amount, to: item.to }
+    });
+    if (policy.decision !== 'ALLOW') {
+      return { ...this.fail(item.eventId, 'AUTH007', policy.reason ?? 'Policy denied'), policyId: policy.policyId };
+    }
+    return null;
+  }
+  
+  // Runs before rate limiting and AuthorizeBehavior; failure → AUTH009
+  async checkScope(
+    credential: ApiKeyCredential,
+    action: AuthorizeBehaviorReq['action'],
+    body?: EventRequest
+  ): Promise<boolean> {
+    const required = await this.requiredScope(action, body);
+    if (required && !this.grants(credential.scopes, required)) return false;
+    if (body && credential.maxAmount !== undefined && body.amount > credential.maxAmount) return false;
+    return true;
+  }
+  
+  // events:* covers every events: scope, never receipts:read
+  private grants(held: ApiKeyScope[], scope: ApiKeyScope): boolean {
+    return held.includes(scope) || (scope.startsWith('events:') && held.includes('events:*'));
+  }
+  
+  // Mirrors the Classifier decision tree so scope is known before classification.
+  // Any key may mint a session (null): the session's scopes are bounded by the key's own instead
+  private async requiredScope(action: AuthorizeBehaviorReq['action'], body?: EventRequest): Promise<ApiKeyScope | null> {
+    if (action === 'marketplace:sessionCreate') return null;
+    if (action === 'marketplace:receiptRead') return 'receipts:read';
+    if (body?.listingId ?? body?.metadata?.listingId) return 'events:buy'; // v2 ?? v1 shape
+    if (body && await this.isTreasuryDestination(body.to)) return 'events:buy';
+    if (body?.putProceeds) return 'events:listing';
+    return 'events:transfer';
+  }
+  
+  // Cost of a request for usdtVolume rules. The Authenticator only sees SPECIES amounts, so a quoted
+  // request is charged its exact totalUsdt and an unquoted one the configured per-SPECIES estimate
+  private async usdtAmountFor(body: EventRequest, scope: ApiKeyScope | null): Promise<number | undefined> {
+    if (scope !== 'events:buy' && scope !== 'events:listing') return undefined;
+    const quote = body.quoteId ? await this.quotes.get(body.quoteId) : null;
+    return quote ? quote.totalUsdt : toUsdt(body.amount * this.unquotedUsdtPerSpecies);
+  }
+  
+  // Same rule as Classifier.isTreasuryDestination, so a raw treasury onliId cannot pass as a transfer
+  private async isTreasuryDestination(to: string): Promise<boolean> {
+    if (to.toLowerCase().includes('treasury') || this.treasuryIdentifiers.includes(to)) return true;
+    return (await this.registry.getUserRole(to)) === 'treasury';
+  }
+  
+  private async authorize(req: AuthorizeBehaviorReq): Promise<AuthorizeBehaviorRes> {
+    const evaluateLocally = async () => this.localPolicy.evaluate(
+      req, new Date(), req.context.to !== undefined && await this.isTreasuryDestination(req.context.to)
+    );
+    if (this.policyMode === 'local-only') {
+      return evaluateLocally();
+    }
+    try {
+      const res = await this.onliCloud.authorizeBehavior(req);
+      return { ...res, policyId: \`onli:\${res.policyId ?? 'default'}\` };
+    } catch (error) {
+      if (this.policyMode === 'local-fallback' && this.isUnavailable(error)) {
+        return evaluateLocally();
+      }
+      throw error; // → AUTH008
+    }
+  }
+  
+  // Returns the secret version that matched, or null if none did
+  private async verifySignature(
+    rawBody: string,
+    signature: string,
+    credential: ApiKeyCredential
+  ): Promise<SecretVersion | null> {
+    switch (credential.signatureAlgorithm) {
+      case 'HMAC-SHA256': {
+        const rotation = await this.registry.getSecretRotation(credential.apiKeyId);
+        if (this.hmacMatches(rawBody, signature, await this.getSecret(rotation.currentRef))) {
+          return 'current';
+        }
+        const inGrace = rotation.previousRef && rotation.graceEndsAt && rotation.graceEndsAt > new Date();
+        if (inGrace && this.hmacMatches(rawBody, signature, await this.getSecret(rotation.previousRef!))) {
+          return 'previous';
+        }
+        return null;
+      }
+      case 'Ed25519': {
+        if (!credential.publicKey) return null;
+        const key = createPublicKey({
+          key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(credential.publicKey, 'base64').toString('base64url') },
+          format: 'jwk'
+        });
+        return verify(null, Buffer.from(rawBody), key, Buffer.from(signature, 'base64')) ? 'current' : null;
+      }
+      default:
+        return null;
+    }
+  }
+  
+  private hmacMatches(rawBody: string, signature: string, secret: string): boolean {
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const actual = Buffer.from(signature, 'base64');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+  
+  // Starts a rotation: new secret becomes current, old one stays valid until graceEndsAt.
+  // Only one previous secret is kept, so rotating inside an open window would silently drop it
+  async rotateSecret(apiKeyId: string, graceWindowSeconds = 86400, purgePrevious = false): Promise<SecretRotation> {
+    const existing = await this.registry.getSecretRotation(apiKeyId);
+    const inGrace = existing.previousRef && existing.graceEndsAt && existing.graceEndsAt > new Date();
+    if (inGrace && !purgePrevious) {
+      throw new Error(\`Rotation grace window for \${apiKeyId} is open until \${existing.graceEndsAt!.toISOString()}; pass purgePrevious to revoke the previous secret\`);
+    }
+    const currentRef = await this.profileTray.createSecret(apiKeyId);
+    const rotation: SecretRotation = {
+      apiKeyId,
+      currentRef,
+      previousRef: existing.currentRef,
+      rotatedAt: new Date(),
+      graceEndsAt: new Date(Date.now() + graceWindowSeconds * 1000)
+    };
+    await this.registry.saveSecretRotation(rotation);
+    await this.cache.delete(\`secret:\${apiKeyId}\`);
+    return rotation;
+  }
+  
+  // Consumer of 'user.status_changed'; the event fans out so each instance clears its local LRU too
+  async onUserStatusChanged(change: UserStatusChange): Promise<void> {
+    await this.invalidateUser(change.onliId);
+    if (change.to !== 'ACTIVE') {
+      for (const sessionId of await this.cache.smembers(\`sessions:user:\${change.onliId}\`)) {
+        await this.revokeSession(sessionId);
+      }
+      await this.cache.delete(\`sessions:user:\${change.onliId}\`);
+    }
+  }
+  
+  async invalidateUser(onliId: string): Promise<void> {
+    await this.cache.delete(\`user:\${onliId}\`);
+    await this.cache.deleteByPrefix(\`authz:\${onliId}:\`);
+    for (const credential of await this.registry.listApiKeys(onliId)) {
+      await this.cache.delete(\`secret:\${credential.apiKeyId}\`);
+    }
+  }
+  
+  // Scheduled: drops previous secrets whose grace window has closed
+  async purgeExpiredSecrets(): Promise<number> {
+    const expired = await this.registry.listExpiredRotations(new Date());
+    for (const rotation of expired) {
+      await this.cache.delete(\`secret:\${rotation.apiKeyId}\`);
+      await this.registry.saveSecretRotation({ apiKeyId: rotation.apiKeyId, currentRef: rotation.currentRef });
+    }
+    return expired.length;
+  }
+}
+
+// Brute-force / anomaly lockout - counts failures per key and per source IP
+export class LockoutDetector {
+  constructor(
+    private registry: MarketplaceUserRegistry,
+    private cache: CacheService,
+    private eventBus: EventBus,
+    private config: {
+      trackedCodes: LockoutCode[];
+      perApiKey: { threshold: number; windowSeconds: number };
+      perSourceIp: { threshold: number; windowSeconds: number; blockSeconds: number };
+    }
+  ) {}
+  
+  async isBlocked(sourceIp?: string): Promise<boolean> {
+    return !!sourceIp && !!(await this.cache.get(\`lockout:ip-blocked:\${sourceIp}\`));
+  }
+  
+  // credential is null for AUTH001 (no key resolved): only the source IP can be counted then
+  async recordFailure(
+    credential: ApiKeyCredential | null,
+    code: AuthFailedEvent['code'],
+    sourceIp?: string
+  ): Promise<void> {
+    if (!this.config.trackedCodes.includes(code as LockoutCode)) return;
+    
+    const { perApiKey, perSourceIp } = this.config;
+    if (credential) {
+      const scope = \`lockout:key:\${credential.apiKeyId}\`;
+      const keyCount = await this.count(scope, code as LockoutCode, perApiKey.windowSeconds);
+      if (keyCount >= perApiKey.threshold && credential.status === 'ACTIVE') {
+        await this.registry.lockApiKey(credential.apiKeyId, \`\${keyCount} failures in \${perApiKey.windowSeconds}s\`);
+        await this.cache.delete(\`secret:\${credential.apiKeyId}\`);
+        await this.publishLocked(credential, 'apiKey', scope, keyCount, perApiKey.windowSeconds, sourceIp);
+      }
+    }
+    
+    if (!sourceIp) return;
+    const scope = \`lockout:ip:\${sourceIp}\`;
+    const ipCount = await this.count(scope, code as LockoutCode, perSourceIp.windowSeconds);
+    if (ipCount >= perSourceIp.threshold) {
+      await this.cache.set(\`lockout:ip-blocked:\${sourceIp}\`, true, perSourceIp.blockSeconds);
+      await this.publishLocked(credential, 'sourceIp', scope, ipCount, perSourceIp.windowSeconds, sourceIp);
+    }
+  }
+  
+  // Failure counter plus the set of codes behind it, both expiring with the window
+  private async count(scope: string, code: LockoutCode, windowSeconds: number): Promise<number> {
+    await this.cache.sadd(\`\${scope}:codes\`, code);
+    await this.cache.expire(\`\${scope}:codes\`, windowSeconds);
+    return this.cache.incr(scope, windowSeconds);
+  }
+  
+  private async publishLocked(
+    credential: ApiKeyCredential | null,
+    trigger: KeyLockedEvent['trigger'],
+    scope: string,
+    failureCount: number,
+    windowSeconds: number,
+    sourceIp?: string
+  ): Promise<void> {
+    await this.eventBus.publish({
+      topic: 'auth.key_locked',
+      apiKeyId: credential?.apiKeyId,
+      onliId: credential?.onliId,
+      trigger,
+      codes: await this.cache.smembers(\`\${scope}:codes\`),
+      failureCount,
+      windowSeconds,
+      sourceIp,
+      ts: new Date().toISOString()
+    });
+  }
+}
+
+// Local policy engine - pure evaluation, first matching rule wins, default DENY
+export class LocalPolicyEngine {
+  constructor(private rules: LocalPolicyRule[]) {
+    this.rules = [...rules].sort((a, b) => a.priority - b.priority);
+  }
+  
+  // toIsTreasury is resolved by the caller (Authenticator.isTreasuryDestination) to keep evaluation pure
+  evaluate(req: AuthorizeBehaviorReq, now: Date = new Date(), toIsTreasury = false): AuthorizeBehaviorRes {
+    const rule = this.rules.find(r => this.matches(r, req, now, toIsTreasury));
+    if (!rule) {
+      return { decision: 'DENY', reason: 'No local rule matched', policyId: 'local:default-deny' };
+    }
+    // An amount cap cannot be checked without an amount, so fail closed rather than skip the cap
+    if (rule.match.maxAmount !== undefined && req.context.amount === undefined) {
+      return { decision: 'DENY', reason: 'Amount required by local rule', policyId: \`local:\${rule.ruleId}\` };
+    }
+    return { decision: rule.effect, policyId: \`local:\${rule.ruleId}\` };
+  }
+  
+  private matches(rule: LocalPolicyRule, req: AuthorizeBehaviorReq, now: Date, toIsTreasury: boolean): boolean {
+    const { match } = rule;
+    const { amount, to } = req.context;
+    if (match.onliIds && !match.onliIds.includes(req.subject.onliId)) return false;
+    if (match.actions && !match.actions.includes(req.action)) return false;
+    if (match.maxAmount !== undefined && amount !== undefined && amount > match.maxAmount) return false;
+    if (match.destinations && !match.destinations.some(d => d === to || (d === 'treasury' && toIsTreasury))) return false;
+    if (match.hoursUtc) {
+      const hour = now.getUTCHours();
+      const { from, to } = match.hoursUtc;
+      const inWindow = from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+      if (!inWindow) return false;
+    }
+    return true;
+  }
 }
 
 // Cache configuration
 export const AuthCacheConfig = {
-  userProfiles: { ttl: 300, maxSize: 10000 },    // 5 min
-  secrets: { ttl: 3600, maxSize: 1000 },         // 1 hour
-  authDecisions: { ttl: 300, maxSize: 5000 },    // 5 min
+  userProfiles: { ttl: 300, maxSize: 10000 },    // 5 min, evicted on user.status_changed
+  secrets: { ttl: 3600, maxSize: 1000 },         // 1 hour, never past graceEndsAt
+  authDecisions: { ttl: 300, maxSize: 5000 },    // 5 min, evicted on user.status_changed
   nonces: { ttl: 60, maxSize: 10000 }            // 60 sec
 };`,
 
@@ -152,6 +778,7 @@ export const AuthCacheConfig = {
     "rateLimiter": {
       "type": "object",
       "properties": {
+        "backend": { "enum": ["redis", "memory"], "default": "redis" },
         "global": {
           "type": "object",
           "properties": {
@@ -165,6 +792,130 @@ export const AuthCacheConfig = {
             "requestsPerSecond": { "type": "integer", "default": 10 },
             "burstSize": { "type": "integer", "default": 20 }
           }
+        },
+        "unquotedUsdtPerSpecies": {
+          "type": "number",
+          "default": 1,
+          "description": "usdtVolume cost per SPECIES for buys/listings without a quoteId (quoted requests are charged quote.totalUsdt)"
+        },
+        "tiers": {
+          "type": "object",
+          "description": "Rule sets keyed by API key rateTier; 'default' applies when unset. global/perApiKey above seed the default tier unless it is listed here; a tier without a global rule inherits global above.",
+          "additionalProperties": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "required": ["dimension", "algorithm", "limit", "windowSeconds"],
+              "properties": {
+                "dimension": { "enum": ["global", "apiKey", "onliId", "destination", "intent", "usdtVolume"] },
+                "algorithm": { "enum": ["token-bucket", "sliding-window"] },
+                "limit": { "type": "number" },
+                "windowSeconds": { "type": "integer" },
+                "burst": { "type": "number" }
+              }
+            }
+          },
+          "default": {
+            "retail": [
+              { "dimension": "apiKey", "algorithm": "token-bucket", "limit": 10, "windowSeconds": 1, "burst": 20 },
+              { "dimension": "usdtVolume", "algorithm": "sliding-window", "limit": 50000, "windowSeconds": 3600 }
+            ],
+            "market_maker": [
+              { "dimension": "apiKey", "algorithm": "token-bucket", "limit": 200, "windowSeconds": 1, "burst": 400 },
+              { "dimension": "usdtVolume", "algorithm": "sliding-window", "limit": 5000000, "windowSeconds": 3600 }
+            ]
+          }
+        }
+      }
+    },
+    "policy": {
+      "type": "object",
+      "properties": {
+        "mode": { "enum": ["cloud-only", "local-only", "local-fallback"], "default": "cloud-only" },
+        "localRules": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "required": ["ruleId", "effect", "priority", "match"],
+            "properties": {
+              "ruleId": { "type": "string" },
+              "effect": { "enum": ["ALLOW", "DENY"] },
+              "priority": { "type": "integer" },
+              "match": {
+                "type": "object",
+                "properties": {
+                  "onliIds": { "type": "array", "items": { "type": "string" } },
+                  "actions": { "type": "array", "items": { "enum": ["marketplace:eventRequest", "marketplace:receiptRead", "marketplace:sessionCreate"] } },
+                  "maxAmount": { "type": "number" },
+                  "destinations": { "type": "array", "items": { "type": "string" } },
+                  "hoursUtc": {
+                    "type": "object",
+                    "properties": {
+                      "from": { "type": "integer", "minimum": 0, "maximum": 23 },
+                      "to": { "type": "integer", "minimum": 0, "maximum": 24 }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "default": []
+        }
+      }
+    },
+    "sessions": {
+      "type": "object",
+      "properties": {
+        "enabled": { "type": "boolean", "default": true },
+        "defaultTtl": { "type": "integer", "default": 600 },
+        "maxTtl": { "type": "integer", "default": 900 }
+      }
+    },
+    "mtls": {
+      "type": "object",
+      "properties": {
+        "enabled": { "type": "boolean", "default": false },
+        "caBundle": { "type": "string" },
+        "fingerprintHeader": { "type": "string", "default": "X-Client-Cert-SHA256" },
+        "trustedProxies": {
+          "type": "array",
+          "items": { "type": "string" },
+          "default": []
+        }
+      }
+    },
+    "eventBus": {
+      "type": "object",
+      "properties": {
+        "subscribeTopics": {
+          "type": "array",
+          "items": { "type": "string" },
+          "default": ["user.status_changed"]
+        }
+      }
+    },
+    "lockout": {
+      "type": "object",
+      "properties": {
+        "trackedCodes": {
+          "type": "array",
+          "items": { "enum": ["AUTH001", "AUTH002", "AUTH004"] },
+          "default": ["AUTH001", "AUTH002", "AUTH004"]
+        },
+        "perApiKey": {
+          "type": "object",
+          "properties": {
+            "threshold": { "type": "integer", "default": 10 },
+            "windowSeconds": { "type": "integer", "default": 300 }
+          }
+        },
+        "perSourceIp": {
+          "type": "object",
+          "properties": {
+            "threshold": { "type": "integer", "default": 50 },
+            "windowSeconds": { "type": "integer", "default": 300 },
+            "blockSeconds": { "type": "integer", "default": 900 }
+          }
         }
       }
     },
@@ -173,7 +924,30 @@ export const AuthCacheConfig = {
       "properties": {
         "nonceWindow": { "type": "integer", "default": 60 },
         "timestampSkew": { "type": "integer", "default": 60 },
-        "signatureAlgorithm": { "const": "HMAC-SHA256" }
+        "signatureAlgorithm": { "enum": ["HMAC-SHA256", "Ed25519"], "default": "HMAC-SHA256" },
+        "secretRotation": {
+          "type": "object",
+          "properties": {
+            "graceWindow": { "type": "integer", "default": 86400 },
+            "purgeInterval": { "type": "integer", "default": 300 }
+          }
+        },
+        "defaultScopes": {
+          "type": "array",
+          "items": { "enum": ["receipts:read", "events:transfer", "events:buy", "events:listing", "events:*"] },
+          "default": ["receipts:read", "events:*"]
+        },
+        "treasuryIdentifiers": {
+          "type": "array",
+          "items": { "type": "string" },
+          "description": "Must match classifier.treasuryIdentifiers so scope inference agrees with classification",
+          "default": ["treasury", "usr-treasury-vault-system"]
+        },
+        "acceptedAlgorithms": {
+          "type": "array",
+          "items": { "enum": ["HMAC-SHA256", "Ed25519"] },
+          "default": ["HMAC-SHA256", "Ed25519"]
+        }
       }
     }
   }
@@ -2,33 +2,46 @@
 export const MarketplaceAPISpecCard: NodeInspectorContent = {
   node: "Marketplace API (v4.1)",
   
-  role: "Ingress gateway for the SPECIES Marketplace Appliance. Validates requests, enforces idempotency/outbox pattern, resolves identities & vaults via the Marketplace User Registry (synced from Species_ProfileTray). Handles event submission, match proof submission, receipt retrieval, and admin operations including API key management.",
+  role: "Ingress gateway for the SPECIES Marketplace Appliance. Validates requests, enforces idempotency/outbox pattern, resolves identities & vaults via the Marketplace User Registry (synced from Species_ProfileTray). Handles firm quotes, event submission (single or batched under one signature), match proof submission, pipeline-aware cancellation, receipt retrieval and event search, real-time pipeline streams (SSE and WebSocket), outbound webhook subscriptions, and admin operations including API key management and the user lifecycle (suspend, reactivate, revoke, forced ProfileTray re-sync).",
   
   headers: [
-    { key: "X-API-Key", value: "<marketplace_api_key>", comment: "Required for all requests" },
+    { key: "X-API-Key", value: "<marketplace_api_key>", comment: "Required for all requests (unless mTLS client certificate)" },
     { key: "X-Nonce", value: "<uuid-v4>", comment: "Required for mutation requests" },
     { key: "X-Timestamp", value: "<RFC3339>", comment: "Required for mutation requests" },
-    { key: "X-Signature", value: "<hmac_signature>", comment: "Required for mutation requests" },
-    { key: "X-Event-Id", value: "<eventId>", comment: "Required for eventRequest" },
-    { key: "Content-Type", value: "application/json", comment: "Required" }
+    { key: "X-Signature", value: "<hmac_signature>", comment: "Required for mutation requests (unless mTLS client certificate)" },
+    { key: "X-Event-Id", value: "<eventId>", comment: "Required for eventRequest (batchId for batch submissions)" },
+    { key: "Authorization", value: "Bearer <session_token>", comment: "Alternative to X-API-Key + X-Signature (short-lived session)" },
+    { key: "Content-Type", value: "application/json", comment: "Required" },
+    { key: "X-API-Version", value: "1 | 2", comment: "Optional; path version (/marketplace/vN) wins. Echoed on responses with Deprecation/Sunset when applicable" },
+    { key: "Last-Event-ID", value: "<stream_entry_id>", comment: "SSE resume point (WebSocket: lastEventId in subscribe message)" }
   ],
   
   logic: [
-    "1) Validate request format, size (<1MB), and content-type",
-    "2) Forward authentication to Authenticator service",
-    "3) For eventRequest: Check idempotency by (eventId + body_hash)",
+    "1) Negotiate API version (path /marketplace/vN, else the versioning.headerName header (X-API-Version), else versioning.defaultVersion; unknown → 400 VER001, past sunset → 410 VER002; deprecated → Deprecation/Sunset/Link headers). Validate request format, size (<1MB; batches <5MB), and content-type; validate the body (POST) or the type-coerced query string (GET) and path params against the generated OpenAPI 3.1 contract (400 REQ001 on mismatch)",
+    "2) Forward authentication to Authenticator service with the route action (eventRequest | receiptRead) for scope checks, plus source IP and verified client certificate (if any); AUTH006 → 429 with RateLimit-*/Retry-After headers",
+    "3) For eventRequest: upgrade body to the canonical (v2) shape via the version adapter, then check idempotency by (tenant = caller onliId, eventId) + canonical body_hash",
     "4) First-seen request → persist to event_ingress table with status='PROCESSING'",
     "5) Resolve from/to → {onliId, vaultId} from Marketplace User Registry (cache-first)",
     "6) Validate resolved users are ACTIVE status",
     "7) Write to transactional outbox: emit 'order.received' event",
     "8) Return 202 Accepted with eventId and tracking URL",
-    "9) For duplicate requests: check body_hash → same=202, different=409",
-    "10) For match proofs: forward to Validator service directly",
-    "11) For receipts: query from Reporter service with caching",
-    "12) Admin endpoints: manage API keys with proper authorization"
+    "9) For duplicate requests: check body_hash → same: replay the stored original response byte-for-byte (status, headers, body) with Idempotent-Replayed: true, or 409 IDEMPOTENCY_IN_FLIGHT + Retry-After while the first attempt is still running; different → 409. Accepted and 4xx outcomes are stored; 5xx/transient failures release the key so the retry runs again. Records live for idempotency.retention (per-tenant overrides) on Postgres (background purge) or Redis (key TTL)",
+    "10) For match proofs and top-up proofs (admission payments left short under the await_topup policy): forward to Validator service directly",
+    "11) For receipts: query from Reporter service with caching; downgrade the canonical receipt to the negotiated version",
+    "12) Admin endpoints: manage API keys with proper authorization (Ed25519 keys require the client public key at issuance); suspend/reactivate/revoke users per USER_STATUS_TRANSITIONS (USER002 otherwise) with a mandatory reason — status history row, admin audit entry and 'user.status_changed' outbox event are written in one transaction so every Authenticator evicts its caches at once; revoke also revokes all of the user's API keys; forced re-sync pulls one user from ProfileTray",
+    "13) Batches: one signature over the whole body (≤ limits.maxBatchItems); each item is upgraded to the canonical (v2) shape like step 3 and runs steps 3-7 independently (Authenticator.authorizeItem: scope, rate limits charged with the item's own amount/destination and AuthorizeBehavior, so AUTH009/AUTH006/AUTH007 reject just that item; idempotency, registry resolution, outbox 'order.received') and gets its own accepted/duplicate/conflict/rejected result (a transient failure stores nothing and is rejected as INTERNAL_ERROR with retryable: true); an item's outcome is stored as POST /events would have answered (202 AcceptedResponse, 422 QuoteRejected/ErrorResponse), so a retry through either endpoint replays it in that endpoint's shape",
+    "14) Cancellation: under the event lock, read event_ingress.stage (advanced by the pipeline consumer that feeds streams) → before 'order.matched' cancel outright; after it release Matching reservations; after 'payment.requested' void the payment session (refund if already confirmed); at/after 'ownership.changed' refuse with CANCEL001; a stage outside PIPELINE_STAGES is refused with CANCEL004. Emit 'order.cancelled' via outbox; receipt ends CANCELLED",
+    "15) Contract: MarketplaceRoutes + JSON Schemas generated from this card's interfaces → one OpenAPI 3.1 document per supported version, served at /marketplace/vN/openapi.json; typed client stubs are generated from it at build time (the simplified MCP server's schema types, per-operation request/response types and ROUTES: npm run generate:client); every referenced schema must exist and request bodies are validated against the negotiated version's schema",
+    "16) Webhooks: pipeline events matching a subscription's onliId + topics become WebhookDelivery rows; every webhooks.dispatchIntervalSeconds the dispatcher claims due rows (PENDING, or RETRYING past nextAttemptAt) under a row lock and POSTs HMAC-signed payloads, retries with backoff (a non-2xx status is recorded from the error response), parks in DEAD_LETTER after webhooks.maxAttempts or when the subscription is DISABLED; admins list deliveries and redeliver",
+    "17) Streams: pipeline events are appended to a per-user Redis stream; SSE (GET /events/:eventId/stream, /stream) and WebSocket (/ws) replay from Last-Event-ID (a single-event stream without one replays that event from the start), then tail live, filtered to the caller's own events (receipts:read scope); a single-event stream ends after its terminal topic",
+    "18) Event search: keyset-paginated query over event_ingress (intent, status, stage, parties, amount, created_at; indexed on (from_onli_id | to_onli_id, created_at DESC, event_id)) joined to the receipt store; users see events where they are from or to, support staff query any onliId via the admin route; limit is clamped to 1..200 and a cursor we did not issue is a 400",
+    "19) Quotes: POST /quotes (from must be the caller's onliId, else QUOTE004) classifies the request with the Classifier decision tree, reserves listing fills until expiresAt (quotes.ttlSeconds), prices fees with FeeCalculator and returns an exact USDT total. An EventRequest carrying quoteId commits it inside the ingress transaction — unknown/expired/used → QUOTE001, terms differ → QUOTE002; Validator then checks the proof against quote.totalUsdt and Matching adopts the reserved fills"
   ],
   
   typescript: `// Interfaces
+// Any chain id enabled in the Validator's chains config (TRON, ETH, BSC, POLYGON, ARBITRUM, SOLANA, TON)
+export type Chain = string;
+
 export interface EventRequest {
   eventId: string;
   from: string;      // onliId or username
@@ -36,18 +49,20 @@ export interface EventRequest {
   amount: number;    // SPECIES amount (integer)
   payWith?: {
     currency: 'USDT';
-    chain: 'TRON' | 'ETH' | 'BSC';
+    chain: Chain;
     proof?: string;    // Payment proof ID
+    proofs?: string[]; // Split payment: further proofs aggregated with proof
     feeProof?: string; // Fee payment proof
   };
   putProceeds?: {
     usdtAddress: string;
-    chain: 'TRON' | 'ETH' | 'BSC';
+    chain: Chain;
   };
   metadata?: {
     listingId?: string;
     note?: string;
   };
+  quoteId?: string;  // from createQuote; locks price, fees and listing reservations
 }
 
 export interface MatchProofSubmission {
@@ -55,7 +70,15 @@ export interface MatchProofSubmission {
   matchId: string;
   amount: number;
   currency: 'USDT';
-  chain: 'TRON' | 'ETH' | 'BSC';
+  chain: Chain;
+  proof: string;
+}
+
+export interface TopUpProofSubmission {
+  eventId: string;
+  amount: number;
+  currency: 'USDT';
+  chain: Chain;
   proof: string;
 }
 
@@ -66,11 +89,129 @@ export interface MarketplaceUser {
   apiKeyId?: string;
   status: 'ACTIVE' | 'SUSPENDED' | 'REVOKED' | 'INVITED';
   profileTrayRef?: string;
+  statusSource?: 'admin' | 'profileTray';  // admin holds survive ProfileTray sync
   createdAt: Date;
   updatedAt: Date;
   lastSync?: Date;
 }
 
+export type UserStatus = MarketplaceUser['status'];
+export type UserLifecycleAction = 'suspend' | 'reactivate' | 'revoke';
+
+// Allowed source states per admin action; REVOKED is terminal
+export const USER_STATUS_TRANSITIONS: Record<UserLifecycleAction, { from: UserStatus[]; to: UserStatus }> = {
+  suspend: { from: ['ACTIVE', 'INVITED'], to: 'SUSPENDED' },
+  reactivate: { from: ['SUSPENDED'], to: 'ACTIVE' },
+  revoke: { from: ['ACTIVE', 'SUSPENDED', 'INVITED'], to: 'REVOKED' }
+};
+
+export interface UserStatusChangeRequest {
+  reason: string;
+}
+
+// Row in user_status_history; also published as the 'user.status_changed' event
+export interface UserStatusChange {
+  topic: 'user.status_changed';
+  changeId: string;
+  onliId: string;
+  from: UserStatus;
+  to: UserStatus;
+  reason: string;
+  actor: string;                     // admin onliId, or 'profileTray-sync'
+  source: 'admin' | 'profileTray';
+  ts: string;
+}
+
+export type UserStatusChangeList = UserStatusChange[];  // newest first
+
+export interface UserStatusRejected {
+  onliId: string;
+  code: 'USER001' | 'USER002';       // not found | transition not allowed
+  status?: UserStatus;
+  message: string;
+}
+
+export interface AdminAuditEntry {
+  auditId: string;
+  actor: string;
+  action: string;                    // e.g. 'user.suspend', 'user.resync'
+  subject: string;                   // onliId
+  reason?: string;
+  details?: Record<string, unknown>;
+  ts: string;
+}
+
+// Secrets and key material are never returned
+export type ApiKeySummary = Omit<ApiKeyCredential, 'publicKey' | 'profileTrayRef'> & {
+  certificateFingerprints: string[];
+};
+
+export type ApiKeySummaryList = ApiKeySummary[];
+
+// HMAC secrets are delivered through ProfileTray, never in the issuance response
+export type ApiKeyResponse = ApiKeySummary;
+
+export interface IssueApiKeyRequest {
+  onliId: string;
+  signatureAlgorithm?: 'HMAC-SHA256' | 'Ed25519';
+  publicKey?: string;                // required for Ed25519
+  scopes?: ApiKeyScope[];
+  maxAmount?: number;
+}
+
+// Firm quotes
+export interface QuoteRequest {
+  from: string;
+  to: string;
+  amount: number;    // SPECIES amount (integer)
+  listingId?: string;
+  chain?: Chain;
+  putProceeds?: {
+    usdtAddress: string;
+    chain: Chain;
+  };
+}
+
+export interface QuotedFill {
+  matchId: string;   // reused by Matching when the quote is committed
+  sellerId: string;
+  listingId?: string;
+  fillAmount: number;
+  priceUsdt: number; // per SPECIES; 0 for treasury issuance and transfers
+}
+
+export interface Quote {
+  quoteId: string;
+  onliId: string;
+  request: QuoteRequest;
+  intent: Intent;
+  fills: QuotedFill[];
+  fees: FeeBreakdown;
+  subtotalUsdt: number;
+  totalUsdt: number; // exact amount the payment proof must carry (6 decimals)
+  status: 'OPEN' | 'COMMITTED' | 'EXPIRED';
+  eventId?: string;  // set on commit
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface QuoteRejected {
+  quoteId?: string;
+  code: 'QUOTE001' | 'QUOTE002' | 'QUOTE003' | 'QUOTE004'; // unknown/expired/used | terms differ | listing cannot fill | from is not the caller
+  message: string;
+}
+
+// Body of every plain 4xx/5xx (PRD 4.1); domain rejections keep their own shapes
+export interface ErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    details?: any;
+    timestamp: string;
+    event_id?: string;
+  };
+}
+
 export interface AcceptedResponse {
   eventId: string;
   status: 'ACCEPTED';
@@ -78,9 +219,24 @@ export interface AcceptedResponse {
   estimatedCompletion?: string;
 }
 
+// Receipt evidence rows, as the Floor Manager writes them
+export interface PaymentRecord {
+  provider: string;
+  paymentId?: string;
+  amount: number;
+  confirmations: number;
+  verifiedAt: string;
+}
+
+export interface AssetReceipt {
+  receiptId: string;
+  operation: string;
+  verifiedAt: string;
+}
+
 export interface EventReceipt {
   eventId: string;
-  status: 'COMPLETED' | 'FAILED' | 'PENDING';
+  status: 'COMPLETED' | 'FAILED' | 'PENDING' | 'CANCELLED' | 'REVERTED';
   intent: 'BUY_TREASURY' | 'BUY_MARKET' | 'SELL_MARKET' | 'TRANSFER';
   from: string;
   to: string;
@@ -97,6 +253,7 @@ export interface EventReceipt {
     settled?: string;
     delivered?: string;
     completed?: string;
+    cancelled?: string;
   };
   fees: {
     listing?: number;
@@ -109,8 +266,251 @@ export interface EventReceipt {
     message: string;
     occurredAt: string;
   };
+  cancellation?: {
+    stage: PipelineStage;
+    reason?: string;
+    compensations: CancellationCompensation[];
+  };
+}
+
+// Event search - GET /marketplace/vN/events
+export interface EventQuery {
+  intent?: EventReceipt['intent'][];
+  status?: Array<EventReceipt['status'] | 'PROCESSING'>;
+  createdFrom?: string;   // RFC3339, inclusive
+  createdTo?: string;     // RFC3339, exclusive
+  counterparty?: string;  // onliId on the other side (from or to)
+  minAmount?: number;
+  maxAmount?: number;
+  order?: 'asc' | 'desc'; // by createdAt, default desc
+  limit?: number;         // default 50, clamped to 1..200
+  cursor?: string;        // opaque; from EventPage.nextCursor
+}
+
+export interface EventSummary {
+  eventId: string;
+  intent?: EventReceipt['intent']; // set once classified
+  status: EventReceipt['status'] | 'PROCESSING';
+  stage: PipelineStage;
+  from: string;
+  to: string;
+  amount: number;
+  fees?: EventReceipt['fees'];     // from receipt store when completed
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EventPage {
+  items: EventSummary[];
+  nextCursor?: string;
+}
+
+// Cursor pins (createdAt, eventId) of the last row so pages stay stable under inserts
+interface EventCursor {
+  createdAt: string;
+  eventId: string;
+}
+
+// Cancellation - POST /marketplace/v1/events/:eventId/cancel (signed)
+export const PIPELINE_STAGES = [
+  'order.received',
+  'request.authenticated',
+  'order.validated',
+  'order.classified',
+  'order.matched',
+  'payment.requested',
+  'payment.confirmed',
+  'ownership.changed',
+  'order.completed'
+] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export type CancellationCompensation = 'reservations.released' | 'payment.voided' | 'payment.refunded';
+
+export interface CancelRequest {
+  eventId: string;
+  reason?: string;
+}
+
+export interface OrderCancelled {
+  topic: 'order.cancelled';
+  eventId: string;
+  stage: PipelineStage;             // furthest stage reached when cancelled
+  compensations: CancellationCompensation[];
+  reason?: string;
+  ts: string;
+}
+
+export interface CancelRejected {
+  eventId: string;
+  code:
+    | 'CANCEL001' // Ownership already changed
+    | 'CANCEL002' // Event already completed, failed or cancelled
+    | 'CANCEL003'  // Event not found for caller
+    | 'CANCEL004'; // Event is at a stage this version does not know
+  stage?: PipelineStage;
+  message: string;
+}
+
+// API versions - v2 is the canonical internal shape; v1 is served through adapters
+export type ApiVersion = 1 | 2;
+
+export interface ReceiptParty {
+  onliId: string;
+  vaultId?: string;
+  startBalance?: number;
+  endBalance?: number;
+}
+
+// v2: listingId promoted to top level (matches ClassifierInput.event.listingId)
+export interface EventRequestV2 extends Omit<EventRequest, 'metadata'> {
+  listingId?: string;
+  metadata?: {
+    note?: string;
+  };
+}
+
+// v2: parties carry vault and balance context (matches the Floor Manager receipt)
+export interface EventReceiptV2 extends Omit<EventReceipt, 'from' | 'to'> {
+  from: ReceiptParty;
+  to: ReceiptParty;
+}
+
+export interface VersionAdapter {
+  upgradeRequest(req: any): EventRequestV2;
+  downgradeReceipt(receipt: EventReceiptV2): any;
+}
+
+export const VersionAdapters: Record<ApiVersion, VersionAdapter> = {
+  1: {
+    upgradeRequest: ({ metadata, ...rest }: EventRequest): EventRequestV2 => ({
+      ...rest,
+      listingId: metadata?.listingId,
+      metadata: metadata?.note ? { note: metadata.note } : undefined
+    }),
+    downgradeReceipt: (receipt: EventReceiptV2): EventReceipt => ({
+      ...receipt,
+      from: receipt.from.onliId,
+      to: receipt.to.onliId
+    })
+  },
+  2: {
+    upgradeRequest: (req: EventRequestV2) => req,
+    downgradeReceipt: (receipt: EventReceiptV2) => receipt
+  }
+};
+
+export interface VersionPolicy {
+  version: ApiVersion;
+  status: 'current' | 'deprecated' | 'sunset';
+  deprecatedAt?: string;   // RFC3339
+  sunsetAt?: string;       // RFC3339
+  docsUrl?: string;
 }
 
+export type VersionNegotiation =
+  | { ok: true; version: ApiVersion; headers: Record<string, string> }
+  | { ok: false; status: 400 | 410; code: 'VER001' | 'VER002'; message: string };
+
+// headers are keyed lower-case (Node); headerName comes from versioning.headerName
+export function negotiateVersion(
+  path: string,
+  headers: Record<string, string | undefined>,
+  policies: VersionPolicy[],
+  defaultVersion: ApiVersion,
+  headerName = 'X-API-Version'
+): VersionNegotiation {
+  const fromPath = path.match(/^\\/marketplace\\/v(\\d+)\\//)?.[1];
+  const requested = Number(fromPath ?? headers[headerName.toLowerCase()] ?? defaultVersion);
+  const policy = policies.find(p => p.version === requested);
+  
+  if (!policy) {
+    return { ok: false, status: 400, code: 'VER001', message: \`Unsupported API version \${requested}\` };
+  }
+  if (policy.status === 'sunset' || (policy.sunsetAt && new Date(policy.sunsetAt) <= new Date())) {
+    return { ok: false, status: 410, code: 'VER002', message: \`API version \${requested} was sunset on \${policy.sunsetAt}\` };
+  }
+  
+  const out: Record<string, string> = { [headerName]: String(policy.version) };
+  if (policy.status === 'deprecated') {
+    // RFC 9745 Deprecation (structured date), RFC 8594 Sunset (HTTP-date)
+    out['Deprecation'] = policy.deprecatedAt ? \`@\${Math.floor(new Date(policy.deprecatedAt).getTime() / 1000)}\` : '?1';
+    if (policy.sunsetAt) out['Sunset'] = new Date(policy.sunsetAt).toUTCString();
+    if (policy.docsUrl) out['Link'] = \`<\${policy.docsUrl}>; rel="deprecation"\`;
+  }
+  return { ok: true, version: policy.version, headers: out };
+}
+
+// Batch submission - POST /marketplace/v1/events/batch
+export interface BatchEventRequest {
+  batchId: string;       // also sent as X-Event-Id; the batch itself is not idempotent, items are
+  items: EventRequest[];
+}
+
+// v2 batches carry v2 items; both are upgraded item by item before hashing
+export interface BatchEventRequestV2 extends Omit<BatchEventRequest, 'items'> {
+  items: EventRequestV2[];
+}
+
+export interface BatchItemResult {
+  index: number;
+  eventId: string;
+  status: 'accepted' | 'duplicate' | 'conflict' | 'rejected';
+  trackingUrl?: string;  // accepted | duplicate
+  error?: {              // conflict | rejected
+    code: string;
+    message: string;
+    retryable?: boolean; // INTERNAL_ERROR: nothing was stored, resubmit the item as-is
+  };
+  original?: BatchItemResult; // duplicate: the first attempt's outcome via either endpoint, absent while it is in flight
+}
+
+export interface BatchAcceptedResponse {
+  batchId: string;
+  results: BatchItemResult[];
+  counts: Record<BatchItemResult['status'], number>;
+}
+
+// Real-time streaming
+export type PipelineTopic =
+  | 'order.received'
+  | 'order.cancelled'
+  | 'request.authenticated'
+  | 'order.validated'
+  | 'order.classified'
+  | 'order.matched'
+  | 'payment.requested'
+  | 'payment.confirmed'
+  | 'payment.partial'
+  | 'payment.credited'
+  | 'payment.reverted'
+  | 'ownership.changed'
+  | 'order.completed'
+  | 'auth.failed'
+  | 'payment.failed'
+  | 'transfer.failed'
+  | 'reconcile.failed';
+
+export interface StreamEvent {
+  id: string;            // Redis stream entry id; monotonic per user, used as Last-Event-ID
+  eventId: string;
+  topic: PipelineTopic;
+  data: Record<string, any>;
+  ts: string;
+}
+
+export interface StreamFilter {
+  onliId: string;        // caller; only their own events are streamed
+  eventId?: string;      // omit for all of the caller's events
+  lastEventId?: string;  // resume strictly after this entry
+}
+
+// WebSocket client → server messages (server → client frames are StreamEvent)
+export type StreamClientMessage =
+  | { type: 'subscribe'; eventId?: string; lastEventId?: string }
+  | { type: 'unsubscribe'; eventId?: string }
+  | { type: 'ping' };
+
 // Service class
 export class MarketplaceAPI {
   constructor(
@@ -120,25 +520,744 @@ export class MarketplaceAPI {
     private reporter: ReporterClient,
     private eventBus: EventBus,
     private cache: CacheService,
-    private db: Database
+    private db: Database,
+    private streams: StreamStore,
+    private idempotency: IdempotencyManager,
+    private userSync: UserSyncClient,
+    private quotes: QuoteManager,
+    private limits: { maxBatchItems: number }
   ) {}
   
   // Endpoints
   async submitEventRequest(req: EventRequest): Promise<AcceptedResponse> {}
+  async submitEventBatch(
+    batch: BatchEventRequest | BatchEventRequestV2,
+    credential: ApiKeyCredential,
+    apiVersion: ApiVersion
+  ): Promise<BatchAcceptedResponse> {
+    if (batch.items.length > this.limits.maxBatchItems) {
+      throw new ValidationError(\`Batch exceeds \${this.limits.maxBatchItems} items\`);
+    }
+    
+    const results: BatchItemResult[] = [];
+    for (const [index, item] of batch.items.entries()) {
+      // Same canonical body as POST /events, so a v1 item and its v2 retry hash identically
+      const canonical = VersionAdapters[apiVersion].upgradeRequest(item);
+      results.push(await this.submitBatchItem(index, canonical, credential));
+    }
+    
+    const counts = { accepted: 0, duplicate: 0, conflict: 0, rejected: 0 };
+    for (const result of results) counts[result.status]++;
+    return { batchId: batch.batchId, results, counts };
+  }
+  
+  // Items are isolated: one item's failure never rolls back another's outbox write
+  private async submitBatchItem(
+    index: number,
+    item: EventRequestV2,
+    credential: ApiKeyCredential
+  ): Promise<BatchItemResult> {
+    const base = { index, eventId: item.eventId };
+    const denied = await this.authenticator.authorizeItem(credential, item);
+    if (denied) {
+      return { ...base, status: 'rejected', error: { code: denied.code, message: denied.reason ?? 'Not authorized' } };
+    }
+    
+    const idem = await this.idempotency.begin(credential.onliId, item.eventId, item);
+    if (idem.outcome === 'conflict') {
+      return { ...base, status: 'conflict', error: { code: 'IDEMPOTENCY_CONFLICT', message: 'eventId reused with a different body' } };
+    }
+    if (idem.outcome === 'duplicate') {
+      const original = idem.response && this.toBatchItemResult(base, idem.response);
+      return { ...base, status: 'duplicate', trackingUrl: this.trackingUrl(item.eventId), original };
+    }
+    
+    // Stored as POST /events would have answered, so a single-event retry replays it byte-for-byte
+    let response: StoredResponse;
+    try {
+      const rejected = await this.db.transaction(async (tx) => {
+        if (item.quoteId) {
+          const quoteRejected = await this.quotes.commit(tx, item, credential.onliId);
+          if (quoteRejected) return quoteRejected;
+        }
+        await tx.insertEventIngress(item, 'PROCESSING');
+        await tx.insertOutbox({ topic: 'order.received', eventId: item.eventId, payload: await this.resolveParties(item) });
+        return null;
+      });
+      const accepted: AcceptedResponse = { eventId: item.eventId, status: 'ACCEPTED', trackingUrl: this.trackingUrl(item.eventId) };
+      response = rejected
+        ? { status: 422, headers: {}, body: JSON.stringify(rejected) }
+        : { status: 202, headers: {}, body: JSON.stringify(accepted) };
+    } catch (error) {
+      if (!error.code) {
+        // Transient: let the client's retry run again instead of replaying the failure
+        await this.idempotency.release(credential.onliId, item.eventId);
+        return { ...base, status: 'rejected', error: { code: 'INTERNAL_ERROR', message: 'Temporary failure, retry this item', retryable: true } };
+      }
+      const body: ErrorResponse = {
+        error: { code: error.code, message: error.message, timestamp: new Date().toISOString(), event_id: item.eventId }
+      };
+      response = { status: 422, headers: {}, body: JSON.stringify(body) };
+    }
+    
+    await this.idempotency.complete(credential.onliId, item.eventId, response);
+    return this.toBatchItemResult(base, response);
+  }
+  
+  // Stored bodies are AcceptedResponse, QuoteRejected or ErrorResponse
+  private toBatchItemResult(base: { index: number; eventId: string }, stored: StoredResponse): BatchItemResult {
+    const body = JSON.parse(stored.body);
+    if (stored.status < 300) {
+      return { ...base, status: 'accepted', trackingUrl: body.trackingUrl };
+    }
+    const error = body.error ?? body;
+    return { ...base, status: 'rejected', error: { code: error.code, message: error.message } };
+  }
+  
+  // subject = caller's onliId (public route) or the target onliId (admin route)
+  async queryEvents(subject: string, query: EventQuery): Promise<EventPage> {
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? 50), 1), 200);
+    const after = query.cursor ? this.decodeCursor(query.cursor) : undefined;
+    
+    const rows = await this.db.queryEventIngress({
+      participant: subject,
+      counterparty: query.counterparty,
+      intents: query.intent,
+      statuses: query.status,
+      createdFrom: query.createdFrom,
+      createdTo: query.createdTo,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      order: query.order ?? 'desc',
+      after,
+      limit: limit + 1,          // one extra row tells us whether another page exists
+      joinReceipts: true
+    });
+    
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit
+        ? Buffer.from(JSON.stringify({ createdAt: last.createdAt, eventId: last.eventId })).toString('base64url')
+        : undefined
+    };
+  }
+  
+  // Cursors are client-supplied; anything we did not issue is a 400, not a 500
+  private decodeCursor(cursor: string): EventCursor {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+      throw new ValidationError('Malformed cursor');
+    }
+    if (typeof decoded?.createdAt !== 'string' || typeof decoded?.eventId !== 'string') {
+      throw new ValidationError('Malformed cursor');
+    }
+    return { createdAt: decoded.createdAt, eventId: decoded.eventId };
+  }
+  
+  // The event lock is shared with AssetManager so delivery and cancellation cannot interleave
+  async cancelEvent(req: CancelRequest, onliId: string): Promise<OrderCancelled | CancelRejected> {
+    return this.db.withEventLock(req.eventId, async (tx) => {
+      const ingress = await tx.getEventIngress(req.eventId);
+      if (!ingress || ingress.from !== onliId) {
+        return { eventId: req.eventId, code: 'CANCEL003', message: 'Event not found' };
+      }
+      if (['COMPLETED', 'FAILED', 'CANCELLED', 'REVERTED'].includes(ingress.status)) {
+        return { eventId: req.eventId, code: 'CANCEL002', stage: ingress.stage, message: \`Event is \${ingress.status}\` };
+      }
+      
+      // indexOf would return -1 and read as "before every stage", cancelling with no compensations
+      const current = PIPELINE_STAGES.indexOf(ingress.stage);
+      if (current === -1) {
+        return { eventId: req.eventId, code: 'CANCEL004', message: \`Unknown pipeline stage \${ingress.stage}\` };
+      }
+      const reached = (stage: PipelineStage) => current >= PIPELINE_STAGES.indexOf(stage);
+      if (reached('ownership.changed')) {
+        return { eventId: req.eventId, code: 'CANCEL001', stage: ingress.stage, message: 'Assets already delivered' };
+      }
+      
+      const compensations: CancellationCompensation[] = [];
+      if (reached('order.matched')) compensations.push('reservations.released');
+      if (reached('payment.requested')) compensations.push('payment.voided');
+      if (reached('payment.confirmed')) compensations.push('payment.refunded');
+      
+      const cancelled: OrderCancelled = {
+        topic: 'order.cancelled',
+        eventId: req.eventId,
+        stage: ingress.stage,
+        compensations,
+        reason: req.reason,
+        ts: new Date().toISOString()
+      };
+      await tx.updateEventIngress(req.eventId, { status: 'CANCELLED' });
+      await tx.insertOutbox(cancelled);
+      return cancelled;
+    });
+  }
+  
+  async createQuote(onliId: string, req: QuoteRequest): Promise<Quote | QuoteRejected> {
+    return this.quotes.createQuote(onliId, req);
+  }
+  async getQuote(onliId: string, quoteId: string): Promise<Quote> {}
   async submitMatchProof(matchId: string, proof: MatchProofSubmission): Promise<any> {}
+  async submitTopUpProof(eventId: string, proof: TopUpProofSubmission): Promise<any> {}
   async getEventReceipt(eventId: string): Promise<EventReceipt> {}
-  async streamEvents(eventId: string): AsyncIterator<Event> {}
+  async createSession(req: SessionTokenRequest): Promise<SessionToken> {}  // signed; POST /marketplace/v1/auth/sessions
+  // DELETE /marketplace/v1/auth/sessions/:sessionId - only the caller's own sessions
+  async revokeSession(auth: AuthenticatedEvent, sessionId: string): Promise<ErrorResponse | null> {
+    const denied = await this.authenticator.revokeSession(sessionId, auth);
+    return denied && {
+      error: { code: denied.code, message: denied.reason ?? 'Session not found', timestamp: new Date().toISOString(), event_id: auth.eventId }
+    };
+  }
+  async createWebhook(onliId: string, req: WebhookSubscriptionRequest): Promise<WebhookSubscription> {}
+  async listWebhooks(onliId: string): Promise<WebhookSubscription[]> {}
+  async deleteWebhook(onliId: string, subscriptionId: string): Promise<void> {}
+  async *streamEvents(filter: StreamFilter): AsyncGenerator<StreamEvent> {
+    const key = \`stream:user:\${filter.onliId}\`;
+    let cursor = filter.lastEventId ?? '$';
+    
+    // Replay missed entries first, then block for live ones. A single-event stream with no
+    // Last-Event-ID replays that event from the start, so stages emitted before the client
+    // connected are not lost and an already-terminal event closes immediately
+    const from = filter.lastEventId ? \`(\${filter.lastEventId}\` : filter.eventId ? '-' : null;
+    if (from) {
+      if (!filter.lastEventId) cursor = '0-0';  // empty stream: tail from its beginning, not '$'
+      for (const entry of await this.streams.range(key, from, '+')) {
+        cursor = entry.id;
+        if (filter.eventId && entry.eventId !== filter.eventId) continue;
+        yield entry;
+        if (filter.eventId && this.isTerminal(entry.topic)) return;
+      }
+    }
+    while (true) {
+      for (const entry of await this.streams.read(key, cursor, { blockMs: 15000 })) {
+        cursor = entry.id;
+        if (filter.eventId && entry.eventId !== filter.eventId) continue;
+        yield entry;
+        if (filter.eventId && this.isTerminal(entry.topic)) return;
+      }
+    }
+  }
   
   // Admin endpoints
-  async issueApiKey(onliId: string): Promise<ApiKeyResponse> {}
+  async issueApiKey(onliId: string, opts?: Omit<IssueApiKeyRequest, 'onliId'>): Promise<ApiKeyResponse> {}
   async revokeApiKey(apiKeyId: string): Promise<void> {}
+  // 409 while the previous rotation's grace window is open, unless purgePrevious
+  async rotateApiSecret(apiKeyId: string, graceWindowSeconds?: number, purgePrevious?: boolean): Promise<SecretRotation> {}
+  async unlockApiKey(apiKeyId: string, reason: string): Promise<void> {}  // clears lockout counters
+  async bindClientCertificate(apiKeyId: string, certPem: string): Promise<CertificateBinding> {}
+  async unbindClientCertificate(fingerprintSha256: string): Promise<void> {}
   async getUserDetails(onliId: string): Promise<MarketplaceUser> {}
+  
+  async changeUserStatus(
+    onliId: string,
+    action: UserLifecycleAction,
+    req: UserStatusChangeRequest,
+    actor: string
+  ): Promise<UserStatusChange | UserStatusRejected> {
+    const transition = USER_STATUS_TRANSITIONS[action];
+    return this.db.transaction(async (tx) => {
+      const user = await tx.getMarketplaceUserForUpdate(onliId);
+      if (!user) {
+        return { onliId, code: 'USER001', message: 'User not found' };
+      }
+      if (!transition.from.includes(user.status)) {
+        return { onliId, code: 'USER002', status: user.status, message: \`Cannot \${action} a \${user.status} user\` };
+      }
+      
+      const change: UserStatusChange = {
+        topic: 'user.status_changed',
+        changeId: generateUUID(),
+        onliId,
+        from: user.status,
+        to: transition.to,
+        reason: req.reason,
+        actor,
+        source: 'admin',
+        ts: new Date().toISOString()
+      };
+      await tx.updateMarketplaceUser(onliId, { status: transition.to, statusSource: 'admin' });
+      if (transition.to === 'REVOKED') await tx.revokeApiKeysFor(onliId);
+      await tx.insertUserStatusHistory(change);
+      await tx.insertAdminAudit({ auditId: generateUUID(), actor, action: \`user.\${action}\`, subject: onliId, reason: req.reason, ts: change.ts });
+      await tx.insertOutbox(change);
+      return change;
+    });
+  }
+  
+  async suspendUser(onliId: string, req: UserStatusChangeRequest, actor: string) {
+    return this.changeUserStatus(onliId, 'suspend', req, actor);
+  }
+  async reactivateUser(onliId: string, req: UserStatusChangeRequest, actor: string) {
+    return this.changeUserStatus(onliId, 'reactivate', req, actor);
+  }
+  async revokeUser(onliId: string, req: UserStatusChangeRequest, actor: string) {
+    return this.changeUserStatus(onliId, 'revoke', req, actor);
+  }
+  
+  // Any status drift found by the re-sync is recorded and published by the Configuration Module
+  async resyncUser(onliId: string, actor: string): Promise<MarketplaceUser> {
+    const user = await this.userSync.syncUser(onliId);
+    await this.db.insertAdminAudit({ auditId: generateUUID(), actor, action: 'user.resync', subject: onliId, ts: new Date().toISOString() });
+    return user;
+  }
+  
+  async listUserApiKeys(onliId: string): Promise<ApiKeySummary[]> {}
+  async getUserStatusHistory(onliId: string): Promise<UserStatusChange[]> {}  // newest first
+  async listWebhookDeliveries(subscriptionId: string, status?: WebhookDelivery['status']): Promise<WebhookDelivery[]> {}
+  async redeliverWebhook(deliveryId: string): Promise<WebhookDelivery> {}
+  
+  private isTerminal(topic: PipelineTopic): boolean {
+    return ['order.completed', 'order.cancelled', 'auth.failed', 'payment.failed', 'transfer.failed', 'reconcile.failed'].includes(topic);
+  }
+}
+
+// Webhooks
+export interface WebhookSubscription {
+  subscriptionId: string;
+  onliId: string;
+  url: string;                  // https only
+  topics: PipelineTopic[];      // e.g. ['order.completed', 'payment.failed', 'transfer.failed']
+  status: 'ACTIVE' | 'DISABLED';
+  secret?: string;              // returned once on create; stored encrypted
+  createdAt: string;
+}
+
+export interface WebhookSubscriptionRequest {
+  url: string;
+  topics: PipelineTopic[];
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  eventId: string;
+  topic: PipelineTopic;
+  status: 'PENDING' | 'DELIVERED' | 'RETRYING' | 'DEAD_LETTER';
+  attempt: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+export type WebhookSubscriptionList = WebhookSubscription[];
+export type WebhookDeliveryList = WebhookDelivery[];
+
+// Headers on every delivery: X-Species-Webhook-Id (deliveryId), X-Species-Webhook-Timestamp,
+// X-Species-Webhook-Signature = base64(HMAC-SHA256(timestamp + '.' + body, subscription secret))
+export class WebhookDispatcher {
+  constructor(
+    private db: Database,
+    private http: HttpClient,
+    private secrets: SecretStore,
+    private config: {
+      timeout: number;
+      maxAttempts: number;
+      backoffSeconds: number[];
+      dispatchBatchSize: number;
+    }
+  ) {}
+  
+  // Called by the pipeline consumer for every StreamEvent; dispatchDue sends the rows
+  async enqueue(event: StreamEvent, onliId: string): Promise<void> {
+    const subscriptions = await this.db.findActiveSubscriptions(onliId, event.topic);
+    for (const subscription of subscriptions) {
+      await this.db.insertDelivery({
+        deliveryId: generateUUID(),
+        subscriptionId: subscription.subscriptionId,
+        eventId: event.eventId,
+        topic: event.topic,
+        status: 'PENDING',
+        attempt: 0,
+        createdAt: new Date().toISOString()
+      }, event);
+    }
+  }
+  
+  // Scheduled every webhooks.dispatchIntervalSeconds. claimDueDeliveries locks PENDING rows and RETRYING
+  // rows whose nextAttemptAt has passed (FOR UPDATE SKIP LOCKED) and pushes nextAttemptAt past the
+  // lease, so no other instance sends the same row while this attempt is in flight
+  async dispatchDue(): Promise<number> {
+    const leaseSeconds = this.config.timeout * 2;
+    const due = await this.db.claimDueDeliveries(new Date(), this.config.dispatchBatchSize, leaseSeconds);
+    for (const delivery of due) {
+      await this.deliver(delivery);
+    }
+    return due.length;
+  }
+  
+  async deliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = await this.db.getSubscription(delivery.subscriptionId);
+    if (subscription.status !== 'ACTIVE') {
+      // Parked rather than retried; an admin can redeliver once the subscription is active again
+      return this.db.updateDelivery({ ...delivery, status: 'DEAD_LETTER', lastError: 'Subscription disabled', nextAttemptAt: undefined });
+    }
+    const body = JSON.stringify(await this.db.getDeliveryPayload(delivery.deliveryId));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = await this.secrets.get(subscription.subscriptionId);
+    const attempt = delivery.attempt + 1;
+    
+    try {
+      const res = await this.http.post(subscription.url, body, {
+        timeout: this.config.timeout * 1000,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Species-Webhook-Id': delivery.deliveryId,
+          'X-Species-Webhook-Timestamp': timestamp,
+          'X-Species-Webhook-Signature': signWebhook(secret, timestamp, body)
+        }
+      });
+      if (res.status >= 200 && res.status < 300) {
+        return this.db.updateDelivery({ ...delivery, attempt, status: 'DELIVERED', responseStatus: res.status, deliveredAt: new Date().toISOString() });
+      }
+      return this.scheduleRetry(delivery, attempt, \`HTTP \${res.status}\`, res.status);
+    } catch (error) {
+      // axios rejects non-2xx answers; the receiver's status still belongs on the row
+      const status = error.response?.status;
+      return this.scheduleRetry(delivery, attempt, status ? \`HTTP \${status}\` : error.message, status);
+    }
+  }
+  
+  // Admin redelivery resets the attempt counter, including for DEAD_LETTER rows
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.db.getDelivery(deliveryId);
+    return this.deliver({ ...delivery, attempt: 0 });
+  }
+  
+  private scheduleRetry(delivery: WebhookDelivery, attempt: number, lastError: string, responseStatus?: number): Promise<WebhookDelivery> {
+    if (attempt >= this.config.maxAttempts) {
+      return this.db.updateDelivery({ ...delivery, attempt, status: 'DEAD_LETTER', lastError, responseStatus, nextAttemptAt: undefined });
+    }
+    const backoff = this.config.backoffSeconds[Math.min(attempt - 1, this.config.backoffSeconds.length - 1)];
+    return this.db.updateDelivery({
+      ...delivery,
+      attempt,
+      status: 'RETRYING',
+      lastError,
+      responseStatus,
+      nextAttemptAt: new Date(Date.now() + backoff * 1000).toISOString()
+    });
+  }
+}
+
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(\`\${timestamp}.\${body}\`).digest('base64');
+}
+
+// OpenAPI contract - single source for routing, runtime validation and client stubs.
+// Component schemas are generated from the interfaces above (ts-json-schema-generator).
+export interface RouteSpec {
+  operationId: string;
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;                      // OpenAPI path template, relative to /marketplace/vN
+  auth: 'signed' | 'read' | 'admin'; // signed = mutation headers; read = API key/session only
+  scope?: ApiKeyScope;
+  role?: string;                     // admin routes
+  request?: string;                  // component schema name (query parameters for GET)
+  responses: Record<number, string | null>; // status → component schema name (null = no body)
+  contentType?: 'application/json' | 'text/event-stream';
+}
+
+export const MarketplaceRoutes: RouteSpec[] = [
+  { operationId: 'createQuote', method: 'POST', path: '/quotes', auth: 'signed', request: 'QuoteRequest', responses: { 201: 'Quote', 403: 'QuoteRejected', 409: 'QuoteRejected' } },
+  { operationId: 'getQuote', method: 'GET', path: '/quotes/{quoteId}', auth: 'read', scope: 'receipts:read', responses: { 200: 'Quote', 404: 'ErrorResponse' } },
+  { operationId: 'submitEventRequest', method: 'POST', path: '/events', auth: 'signed', request: 'EventRequest', responses: { 202: 'AcceptedResponse', 409: 'ErrorResponse', 422: 'QuoteRejected' } },
+  { operationId: 'submitEventBatch', method: 'POST', path: '/events/batch', auth: 'signed', request: 'BatchEventRequest', responses: { 202: 'BatchAcceptedResponse' } },
+  { operationId: 'cancelEvent', method: 'POST', path: '/events/{eventId}/cancel', auth: 'signed', request: 'CancelRequest', responses: { 200: 'OrderCancelled', 409: 'CancelRejected' } },
+  { operationId: 'submitMatchProof', method: 'POST', path: '/matches/{matchId}/proof', auth: 'signed', request: 'MatchProofSubmission', responses: { 202: 'AcceptedResponse' } },
+  { operationId: 'submitTopUpProof', method: 'POST', path: '/events/{eventId}/proofs', auth: 'signed', request: 'TopUpProofSubmission', responses: { 202: 'AcceptedResponse' } },
+  { operationId: 'queryEvents', method: 'GET', path: '/events', auth: 'read', scope: 'receipts:read', request: 'EventQuery', responses: { 200: 'EventPage', 400: 'ErrorResponse' } },
+  { operationId: 'getEventReceipt', method: 'GET', path: '/receipts/{eventId}', auth: 'read', scope: 'receipts:read', responses: { 200: 'EventReceipt', 404: 'ErrorResponse' } },
+  { operationId: 'streamEvent', method: 'GET', path: '/events/{eventId}/stream', auth: 'read', scope: 'receipts:read', responses: { 200: 'StreamEvent' }, contentType: 'text/event-stream' },
+  { operationId: 'streamEvents', method: 'GET', path: '/stream', auth: 'read', scope: 'receipts:read', responses: { 200: 'StreamEvent' }, contentType: 'text/event-stream' },
+  { operationId: 'createWebhook', method: 'POST', path: '/webhooks', auth: 'signed', scope: 'receipts:read', request: 'WebhookSubscriptionRequest', responses: { 201: 'WebhookSubscription' } },
+  { operationId: 'listWebhooks', method: 'GET', path: '/webhooks', auth: 'read', scope: 'receipts:read', responses: { 200: 'WebhookSubscriptionList' } },
+  { operationId: 'deleteWebhook', method: 'DELETE', path: '/webhooks/{subscriptionId}', auth: 'signed', scope: 'receipts:read', responses: { 204: null } },
+  { operationId: 'createSession', method: 'POST', path: '/auth/sessions', auth: 'signed', request: 'SessionTokenRequest', responses: { 201: 'SessionToken' } },
+  { operationId: 'revokeSession', method: 'DELETE', path: '/auth/sessions/{sessionId}', auth: 'read', responses: { 204: null, 404: 'ErrorResponse' } },
+  
+  { operationId: 'issueApiKey', method: 'POST', path: '/admin/api-keys', auth: 'admin', role: 'admin', request: 'IssueApiKeyRequest', responses: { 201: 'ApiKeyResponse' } },
+  { operationId: 'revokeApiKey', method: 'DELETE', path: '/admin/api-keys/{apiKeyId}', auth: 'admin', role: 'admin', responses: { 204: null } },
+  { operationId: 'rotateApiSecret', method: 'POST', path: '/admin/api-keys/{apiKeyId}/rotate', auth: 'admin', role: 'admin', responses: { 200: 'SecretRotation', 409: 'ErrorResponse' } },
+  { operationId: 'unlockApiKey', method: 'POST', path: '/admin/api-keys/{apiKeyId}/unlock', auth: 'admin', role: 'admin', responses: { 204: null } },
+  { operationId: 'bindClientCertificate', method: 'POST', path: '/admin/api-keys/{apiKeyId}/certificates', auth: 'admin', role: 'admin', responses: { 201: 'CertificateBinding' } },
+  { operationId: 'unbindClientCertificate', method: 'DELETE', path: '/admin/certificates/{fingerprintSha256}', auth: 'admin', role: 'admin', responses: { 204: null } },
+  { operationId: 'listWebhookDeliveries', method: 'GET', path: '/admin/webhooks/{subscriptionId}/deliveries', auth: 'admin', role: 'support', responses: { 200: 'WebhookDeliveryList' } },
+  { operationId: 'redeliverWebhook', method: 'POST', path: '/admin/webhooks/deliveries/{deliveryId}/redeliver', auth: 'admin', role: 'support', responses: { 200: 'WebhookDelivery' } },
+  { operationId: 'queryUserEvents', method: 'GET', path: '/admin/users/{onliId}/events', auth: 'admin', role: 'support', request: 'EventQuery', responses: { 200: 'EventPage', 400: 'ErrorResponse' } },
+  { operationId: 'getUserDetails', method: 'GET', path: '/admin/users/{onliId}', auth: 'admin', role: 'support', responses: { 200: 'MarketplaceUser', 404: 'ErrorResponse' } },
+  { operationId: 'suspendUser', method: 'POST', path: '/admin/users/{onliId}/suspend', auth: 'admin', role: 'admin', request: 'UserStatusChangeRequest', responses: { 200: 'UserStatusChange', 404: 'UserStatusRejected', 409: 'UserStatusRejected' } },
+  { operationId: 'reactivateUser', method: 'POST', path: '/admin/users/{onliId}/reactivate', auth: 'admin', role: 'admin', request: 'UserStatusChangeRequest', responses: { 200: 'UserStatusChange', 404: 'UserStatusRejected', 409: 'UserStatusRejected' } },
+  { operationId: 'revokeUser', method: 'POST', path: '/admin/users/{onliId}/revoke', auth: 'admin', role: 'admin', request: 'UserStatusChangeRequest', responses: { 200: 'UserStatusChange', 404: 'UserStatusRejected', 409: 'UserStatusRejected' } },
+  { operationId: 'resyncUser', method: 'POST', path: '/admin/users/{onliId}/resync', auth: 'admin', role: 'admin', responses: { 200: 'MarketplaceUser', 404: 'ErrorResponse' } },
+  { operationId: 'listUserApiKeys', method: 'GET', path: '/admin/users/{onliId}/api-keys', auth: 'admin', role: 'support', responses: { 200: 'ApiKeySummaryList' } },
+  { operationId: 'getUserStatusHistory', method: 'GET', path: '/admin/users/{onliId}/status-history', auth: 'admin', role: 'support', responses: { 200: 'UserStatusChangeList' } }
+];
+
+// Versioned schema names resolve first ('EventRequest' → 'EventRequestV2' for v2).
+// A name with no schema at all fails the build instead of emitting a dangling $ref
+export function resolveSchemaName(schemas: Record<string, object>, name: string, apiVersion: ApiVersion): string {
+  const resolved = schemas[\`\${name}V\${apiVersion}\`] ? \`\${name}V\${apiVersion}\` : name;
+  if (!schemas[resolved]) throw new Error(\`No component schema for \${name}\`);
+  return resolved;
+}
+
+export function buildOpenApiDocument(
+  routes: RouteSpec[],
+  schemas: Record<string, object>,
+  apiVersion: ApiVersion,
+  releaseVersion: string
+): object {
+  const paths: Record<string, Record<string, object>> = {};
+  
+  for (const route of routes) {
+    const path = \`/marketplace/v\${apiVersion}\${route.path}\`;
+    const pathParams = [...route.path.matchAll(/\\{(\\w+)\\}/g)].map(([, name]) => ({
+      name, in: 'path', required: true, schema: { type: 'string' }
+    }));
+    const ref = (name: string) => ({ $ref: \`#/components/schemas/\${resolveSchemaName(schemas, name, apiVersion)}\` });
+    const contentType = route.contentType ?? 'application/json';
+    
+    paths[path] ??= {};
+    paths[path][route.method.toLowerCase()] = {
+      operationId: route.operationId,
+      security: [route.auth === 'signed' ? { apiKey: [], signature: [] } : { apiKey: [] }, { bearerSession: [] }],
+      parameters: route.request && route.method === 'GET'
+        ? [...pathParams, { name: 'query', in: 'query', style: 'form', explode: true, schema: ref(route.request) }]
+        : pathParams,
+      ...(route.request && route.method !== 'GET' && {
+        requestBody: { required: true, content: { 'application/json': { schema: ref(route.request) } } }
+      }),
+      responses: Object.fromEntries(Object.entries(route.responses).map(([status, schema]) => [
+        status,
+        schema ? { description: schema, content: { [contentType]: { schema: ref(schema) } } } : { description: 'No content' }
+      ])),
+      ...(route.scope && { 'x-species-scope': route.scope }),
+      ...(route.role && { 'x-species-role': route.role })
+    };
+  }
+  
+  return {
+    openapi: '3.1.0',
+    jsonSchemaDialect: 'https://json-schema.org/draft/2020-12/schema',
+    info: { title: \`SPECIES Marketplace API v\${apiVersion}\`, version: releaseVersion },
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        signature: { type: 'apiKey', in: 'header', name: 'X-Signature' },
+        bearerSession: { type: 'http', scheme: 'bearer' }
+      }
+    },
+    paths
+  };
+}
+
+// Runtime validation against the same document (Ajv 2020 dialect, compiled once at boot);
+// requests are checked against the negotiated version's schema, e.g. EventRequestV2 on v2.
+// GET routes carry their request in the query string, whose values all arrive as strings, so
+// queryAjv is built with coerceTypes: 'array' (it coerces req.query in place for the handler)
+export class ContractValidator {
+  constructor(
+    private ajv: Ajv2020,
+    private queryAjv: Ajv2020,
+    private schemas: Record<string, object>
+  ) {}
+  
+  validateRequest(
+    route: RouteSpec,
+    req: { body?: unknown; query: Record<string, unknown> },
+    apiVersion: ApiVersion
+  ): { valid: true } | { valid: false; code: 'REQ001'; errors: string[] } {
+    if (!route.request) return { valid: true };
+    const name = resolveSchemaName(this.schemas, route.request, apiVersion);
+    const fromQuery = route.method === 'GET';
+    const validate = (fromQuery ? this.queryAjv : this.ajv).getSchema(\`#/components/schemas/\${name}\`)!;
+    if (validate(fromQuery ? req.query : req.body)) return { valid: true };
+    return { valid: false, code: 'REQ001', errors: (validate.errors ?? []).map(e => \`\${e.instancePath} \${e.message}\`) };
+  }
+}
+
+// SSE wire format; heartbeats are sent as comment lines (': ping')
+export function toSseFrame(event: StreamEvent): string {
+  return \`id: \${event.id}\\nevent: \${event.topic}\\ndata: \${JSON.stringify(event)}\\n\\n\`;
 }
 
 // Idempotency implementation
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;          // serialized exactly as first sent; replays write these bytes
+}
+
+export interface IdempotencyRecord {
+  tenantId: string;      // caller onliId; keys never collide across tenants
+  eventId: string;
+  bodyHash: string;
+  state: 'IN_FLIGHT' | 'COMPLETED';
+  response?: StoredResponse;
+  leaseExpiresAt: string; // IN_FLIGHT only; a crashed first attempt can be taken over after this
+  expiresAt: string;
+}
+
+export type IdempotencyOutcome =
+  | { outcome: 'new' }
+  | { outcome: 'duplicate'; response?: StoredResponse } // no response while the first attempt is in flight
+  | { outcome: 'conflict' };
+
+// Postgres: idempotency_keys (tenant_id, event_id) PK, index on expires_at. Redis: one hash per key with PEXPIREAT
+export interface IdempotencyStore {
+  insertIfAbsent(record: IdempotencyRecord): Promise<IdempotencyRecord | null>; // existing record, if any
+  takeOver(record: IdempotencyRecord, previousLease: string): Promise<boolean>;
+  complete(tenantId: string, eventId: string, response: StoredResponse): Promise<void>;
+  delete(tenantId: string, eventId: string): Promise<void>;
+  purgeExpired(now: Date, limit: number): Promise<number>; // Redis: no-op, TTL expires keys
+}
+
+export interface IdempotencyConfig {
+  backend: 'postgres' | 'redis';
+  retention: {
+    defaultSeconds: number;
+    tenants: Record<string, number>; // onliId → seconds
+  };
+  inFlightLeaseSeconds: number;
+  purgeIntervalSeconds: number;
+  purgeBatchSize: number;
+}
+
 export class IdempotencyManager {
-  async checkAndStore(eventId: string, bodyHash: string): Promise<'new' | 'duplicate' | 'conflict'> {}
-  private hashBody(body: any): string {}
+  constructor(
+    private store: IdempotencyStore,
+    private config: IdempotencyConfig
+  ) {}
+  
+  async begin(tenantId: string, eventId: string, body: any): Promise<IdempotencyOutcome> {
+    const now = Date.now();
+    const record: IdempotencyRecord = {
+      tenantId,
+      eventId,
+      bodyHash: this.hashBody(body),
+      state: 'IN_FLIGHT',
+      leaseExpiresAt: new Date(now + this.config.inFlightLeaseSeconds * 1000).toISOString(),
+      expiresAt: new Date(now + this.retentionFor(tenantId) * 1000).toISOString()
+    };
+    
+    const existing = await this.store.insertIfAbsent(record);
+    if (!existing) return { outcome: 'new' };
+    if (existing.bodyHash !== record.bodyHash) return { outcome: 'conflict' };
+    if (existing.state === 'COMPLETED') return { outcome: 'duplicate', response: existing.response };
+    
+    if (new Date(existing.leaseExpiresAt).getTime() <= now
+      && await this.store.takeOver(record, existing.leaseExpiresAt)) {
+      return { outcome: 'new' };
+    }
+    return { outcome: 'duplicate' };
+  }
+  
+  async complete(tenantId: string, eventId: string, response: StoredResponse): Promise<void> {
+    await this.store.complete(tenantId, eventId, response);
+  }
+  
+  async release(tenantId: string, eventId: string): Promise<void> {
+    await this.store.delete(tenantId, eventId);
+  }
+  
+  // Scheduled every purgeIntervalSeconds; drains in batches so one run never holds a long lock
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    let batch: number;
+    do {
+      batch = await this.store.purgeExpired(new Date(), this.config.purgeBatchSize);
+      purged += batch;
+    } while (batch === this.config.purgeBatchSize);
+    return purged;
+  }
+  
+  retentionFor(tenantId: string): number {
+    return this.config.retention.tenants[tenantId] ?? this.config.retention.defaultSeconds;
+  }
+  
+  hashBody(body: any): string {}
+}
+
+// Firm quotes: price, fees and listing reservations hold until expiresAt
+export class QuoteManager {
+  constructor(
+    private db: Database,
+    private classifier: Classifier,
+    private fees: FeeCalculator,
+    private config: { ttlSeconds: number }
+  ) {}
+  
+  async createQuote(onliId: string, req: QuoteRequest): Promise<Quote | QuoteRejected> {
+    // Quotes reserve listing fills, so only the paying party may ask for one
+    if (req.from !== onliId) {
+      return { code: 'QUOTE004', message: 'Quote must be requested by its from party' };
+    }
+    const quoteId = 'qt_' + generateUUID();
+    const expiresAt = new Date(Date.now() + this.config.ttlSeconds * 1000);
+    const { intent } = this.classifier.decide({
+      event: { eventId: quoteId, from: req.from, to: req.to, amount: req.amount, listingId: req.listingId, putProceeds: req.putProceeds },
+      ts: new Date().toISOString()
+    });
+    
+    return this.db.transaction(async (tx) => {
+      const fills: QuotedFill[] = [];
+      if (intent === 'BUY_MARKET') {
+        const listing = await tx.getListingForUpdate(req.listingId!);
+        if (!listing || !['ACTIVE', 'PARTIALLY_FILLED'].includes(listing.status) || listing.availableAmount < req.amount) {
+          return { quoteId, code: 'QUOTE003', message: 'Listing cannot fill the requested amount' };
+        }
+        const fill = { matchId: generateUUID(), sellerId: listing.sellerId, listingId: listing.listingId, fillAmount: req.amount, priceUsdt: listing.priceUsdt };
+        await tx.insertMatchReservation({ ...fill, quoteId, expiresAt });
+        fills.push(fill);
+      } else if (intent === 'BUY_TREASURY') {
+        fills.push({ matchId: generateUUID(), sellerId: 'usr-treasury-vault-system', fillAmount: req.amount, priceUsdt: 0 });
+      }
+      
+      const fees = this.fees.calculateMatchFee(intent, req.amount);
+      const subtotalUsdt = toUsdt(fills.reduce((sum, f) => sum + f.fillAmount * f.priceUsdt, 0));
+      const quote: Quote = {
+        quoteId,
+        onliId,
+        request: req,
+        intent,
+        fills,
+        fees,
+        subtotalUsdt,
+        totalUsdt: toUsdt(subtotalUsdt + fees.total),
+        status: 'OPEN',
+        createdAt: new Date().toISOString(),
+        expiresAt: expiresAt.toISOString()
+      };
+      await tx.insertQuote(quote);
+      return quote;
+    });
+  }
+  
+  // Runs inside the ingress transaction so a quote binds to exactly one eventId
+  async commit(tx: Transaction, req: EventRequest | EventRequestV2, onliId: string): Promise<QuoteRejected | null> {
+    const quote = await tx.getQuoteForUpdate(req.quoteId!);
+    if (!quote || quote.onliId !== onliId || quote.status !== 'OPEN' || new Date(quote.expiresAt) <= new Date()) {
+      return { quoteId: req.quoteId, code: 'QUOTE001', message: 'Quote not found, expired or already used' };
+    }
+    
+    const terms = quote.request;
+    const listingId = req.listingId ?? req.metadata?.listingId; // v2 ?? v1 shape
+    if (terms.from !== req.from || terms.to !== req.to || terms.amount !== req.amount
+      || terms.listingId !== listingId || (terms.chain && terms.chain !== req.payWith?.chain)) {
+      return { quoteId: quote.quoteId, code: 'QUOTE002', message: 'Request does not match the quoted terms' };
+    }
+    
+    await tx.updateQuote(quote.quoteId, { status: 'COMMITTED', eventId: req.eventId });
+    return null;
+  }
 }`,
 
   json: `{
@@ -171,12 +1290,31 @@ export class IdempotencyManager {
           "type": "object",
           "properties": {
             "userProfiles": { "type": "integer", "default": 300 },
-            "eventReceipts": { "type": "integer", "default": 3600 },
-            "idempotency": { "type": "integer", "default": 86400 }
+            "eventReceipts": { "type": "integer", "default": 3600 }
           }
         }
       }
     },
+    "idempotency": {
+      "type": "object",
+      "properties": {
+        "backend": { "enum": ["postgres", "redis"], "default": "postgres" },
+        "retention": {
+          "type": "object",
+          "properties": {
+            "defaultSeconds": { "type": "integer", "default": 86400 },
+            "tenants": {
+              "type": "object",
+              "description": "Per-tenant retention in seconds, keyed by onliId",
+              "additionalProperties": { "type": "integer", "minimum": 60 }
+            }
+          }
+        },
+        "inFlightLeaseSeconds": { "type": "integer", "default": 30 },
+        "purgeIntervalSeconds": { "type": "integer", "default": 300 },
+        "purgeBatchSize": { "type": "integer", "default": 1000 }
+      }
+    },
     "eventBus": {
       "type": "object",
       "properties": {
@@ -190,40 +1328,96 @@ export class IdempotencyManager {
         }
       }
     },
+    "streaming": {
+      "type": "object",
+      "properties": {
+        "retention": { "type": "integer", "default": 86400 },
+        "maxLenPerUser": { "type": "integer", "default": 10000 },
+        "heartbeatInterval": { "type": "integer", "default": 15 },
+        "sse": {
+          "type": "object",
+          "properties": {
+            "enabled": { "type": "boolean", "default": true }
+          }
+        },
+        "websocket": {
+          "type": "object",
+          "properties": {
+            "enabled": { "type": "boolean", "default": true },
+            "path": { "type": "string", "default": "/marketplace/v1/ws" },
+            "maxConnectionsPerKey": { "type": "integer", "default": 5 }
+          }
+        }
+      }
+    },
+    "webhooks": {
+      "type": "object",
+      "properties": {
+        "enabled": { "type": "boolean", "default": true },
+        "requireHttps": { "type": "boolean", "default": true },
+        "maxSubscriptionsPerUser": { "type": "integer", "default": 10 },
+        "timeout": { "type": "integer", "default": 10 },
+        "dispatchIntervalSeconds": { "type": "integer", "default": 5 },
+        "dispatchBatchSize": { "type": "integer", "default": 100 },
+        "maxAttempts": { "type": "integer", "default": 8 },
+        "backoffSeconds": {
+          "type": "array",
+          "items": { "type": "integer" },
+          "default": [10, 60, 300, 900, 3600, 7200, 21600]
+        },
+        "deliveryRetention": { "type": "integer", "default": 2592000 }
+      }
+    },
     "limits": {
       "type": "object",
       "properties": {
         "maxRequestSize": { "type": "integer", "default": 1048576 },
+        "maxBatchRequestSize": { "type": "integer", "default": 5242880 },
+        "maxBatchItems": { "type": "integer", "default": 500 },
         "maxEventAge": { "type": "integer", "default": 86400 },
         "requestTimeout": { "type": "integer", "default": 30 }
       }
     },
-    "endpoints": {
+    "quotes": {
       "type": "object",
       "properties": {
-        "public": {
-          "type": "array",
-          "items": {
-            "type": "object",
-            "properties": {
-              "method": { "enum": ["GET", "POST"] },
-              "path": { "type": "string" },
-              "auth": { "type": "boolean" }
-            }
-          }
-        },
-        "admin": {
+        "ttlSeconds": { "type": "integer", "default": 120, "maximum": 900 }
+      }
+    },
+    "versioning": {
+      "type": "object",
+      "properties": {
+        "defaultVersion": { "enum": [1, 2], "default": 1 },
+        "headerName": { "type": "string", "default": "X-API-Version" },
+        "versions": {
           "type": "array",
           "items": {
             "type": "object",
+            "required": ["version", "status"],
             "properties": {
-              "method": { "enum": ["GET", "POST", "DELETE"] },
-              "path": { "type": "string" },
-              "role": { "type": "string" }
+              "version": { "enum": [1, 2] },
+              "status": { "enum": ["current", "deprecated", "sunset"] },
+              "deprecatedAt": { "type": "string", "format": "date-time" },
+              "sunsetAt": { "type": "string", "format": "date-time" },
+              "docsUrl": { "type": "string", "format": "uri" }
             }
-          }
+          },
+          "default": [
+            { "version": 1, "status": "current" },
+            { "version": 2, "status": "current" }
+          ]
         }
       }
+    },
+    "contract": {
+      "type": "object",
+      "description": "Routes come from MarketplaceRoutes; the OpenAPI document is generated, not configured",
+      "properties": {
+        "documentPath": { "type": "string", "default": "/marketplace/v{version}/openapi.json" },
+        "validateRequests": { "type": "boolean", "default": true },
+        "validateResponses": { "type": "boolean", "default": false },
+        "clientOutput": { "type": "string", "default": "clients/species-api.ts" }
+      }
     }
   }
 }`
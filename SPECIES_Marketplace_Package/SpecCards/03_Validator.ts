@@ -2,27 +2,60 @@
 export const ValidatorSpecCard: NodeInspectorContent = {
   node: "Validator Service (v4.1)",
   
-  role: "Verifies USDT payment proofs before any asset operation. Supports dual-path verification: 1) Processor path via NOWPayments API (preferred), 2) Direct chain verification via TronScan/Etherscan/BscScan. Also verifies match-time proofs and handles provider webhooks. Maintains circuit breaker pattern for external service resilience.",
+  role: "Verifies USDT payment proofs before any asset operation. Supports dual-path verification: 1) Processor path via NOWPayments API (preferred), 2) Direct chain verification via Moralis (EVM chains it indexes) and the chain's own verifier from a pluggable registry (TRON, ETH, BSC, Polygon, Arbitrum, Solana, TON), tried in a configurable per-chain provider order. Moralis Streams webhooks push confirmed USDT transfers for proofs still awaiting confirmations. Accepted transactions are tracked to a deeper per-chain finality depth and reported as 'payment.reverted' if a reorg drops them. Also verifies match-time proofs and handles provider webhooks. Maintains circuit breaker pattern for external service resilience.",
   
   headers: "Internal service - no direct HTTP headers. Uses API keys for external provider calls.",
   
   logic: [
-    "1) Receive validation request (admission or match-proof)",
-    "2) Detect proof type: NOWPayments ID (npmt_*) or blockchain tx hash (64 hex chars)",
-    "3) Check cache for recently verified proofs (10 min TTL)",
+    "1) Receive validation request (admission or match-proof); events whose ingress status is CANCELLED are skipped (audited, nothing emitted), so a late proof cannot revive a cancelled order",
+    "2) Detect proof type: NOWPayments ID (npmt_*) or blockchain tx reference (64-hex hash on EVM/TRON/TON, base58 signature on Solana)",
+    "3) Check cache for recently verified proofs (10 min TTL); a cache hit still goes through the consumption registry in 8/9",
     "4) For NOWPayments: Call GET /payment/{id} with API key",
-    "5) For direct chain: Query TronScan/Etherscan/BscScan based on chain",
-    "6) Verify: status='finished', confirmations≥12, currency='USDT', amount within 0.1% tolerance",
+    "5) For direct chain: try the providers in validation.providerPriority[chain] order (default: Moralis then native for chains with a moralisChainId, native only elsewhere; native is the chain's registered verifier — EVM: eth_getTransactionReceipt and USDT Transfer logs, TRON: TronGrid, Solana: getTransaction token balances, TON: jetton transfers — on chains.<chain>.usdtContract scaled by chains.<chain>.decimals) — fall through on error or open circuit, never on a definitive invalid result",
+    "6) Verify: status='finished', confirmations≥chains.<chain>.minConfirmations, currency='USDT', amount (summed over the order's proofs, see 15) within 0.1% tolerance of the expected amount — the committed quote's totalUsdt (or quoted fill for match proofs) when quoteId is present, else recomputed from price + fees",
     "7) Check timestamp freshness (max 60 minutes old)",
-    "8) For admission: emit 'order.validated' on success or 'payment.failed' on failure",
-    "9) For match-proof: emit 'payment.confirmed' with provider details",
+    "8) Before emitting, bind the proof in the permanent consumption registry (chain:txHash, plus NOWPayments:id and its payin hash for processor proofs) to exactly one eventId:matchId in one transaction; a proof already bound elsewhere → 'payment.failed' proof.already_used, a repeat of the same binding is not reuse. For admission: emit 'order.validated' on success (large payments only once quorum is reached, see 13) or 'payment.failed' on failure",
+    "9) For match-proof: emit 'payment.confirmed' with provider details; a valid transfer still short on confirmations is recorded as an AwaitingProof (keyed by tx hash) for the Moralis stream to complete",
     "10) Store verification result in cache and audit log",
-    "11) Handle webhooks: verify signature → check status → emit 'payment.confirmed'",
-    "12) Circuit breaker: open after 5 consecutive failures, retry after 60s"
+    "11) Handle webhooks: verify signature → check status → emit 'payment.confirmed'. Moralis Streams (x-signature = keccak256(raw request body + streamSecret), compared in constant time before the body is parsed): ignore unconfirmed deliveries, match erc20Transfers on the USDT contract to proofs awaiting confirmations by tx hash, re-verify via MoralisVerifier, then accept it exactly like a polled match proof — consumption binding (8), payment aggregate (15) and finality tracking (14); the awaiting entry is removed only after that succeeds",
+    "12) Circuit breaker: open after 5 consecutive failures, retry after 60s",
+    "13) Quorum: when the expected amount ≥ validation.quorum.thresholdUsdt, query every source in quorum.sources[chain] (NOWPayments first for npmt_* proofs, its payin hash feeds the explorers) and require quorum.required sources to independently agree on the proof's own amount (split proofs carry part of the order; the aggregate checks the total), recipient (NOWPayments' pay_address for npmt_* proofs), confirmations and the configured USDT contract; every answer (or error) goes to the audit log; short of quorum → 'payment.failed' quorum.not_reached",
+    "14) Finality: every tx hash behind an 'order.validated' or 'payment.confirmed' is tracked (block number + hash) until chains.<chain>.finalityDepth; each poll re-reads its inclusion — gone on finality.dropAfterMisses consecutive polls → 'payment.reverted' tx.dropped (a single miss is node lag, not a verdict); different block → re-validate there with the confirmation check waived (confirmations restart in the new block), keep tracking if still valid, else 'payment.reverted' block.reorged. A read error on one payment is recorded on it and the poll moves on",
+    "15) Amount policy: each proof is verified on its own (split payments: payWith.proofs or several match/top-up proofs, up to payments.maxProofsPerPayment) against the full expected amount — its amountCheck is informational, every other check must pass — and added to the order's PaymentAggregate once, read and saved under the event lock (a proof key already in it, or an aggregate no longer OPEN/AWAITING_TOPUP, is an idempotent no-op, so polling and the Moralis stream can race on one tx); the aggregate, not a single proof, is compared with the expected amount. Within tolerance → accept. Over → accept and emit 'payment.credited' (overpayment) for the excess. Under → payments.underpayment: await_topup emits 'payment.partial' and waits payments.topupWindowSeconds for more proofs (then fails and credits what was received); partial_fill accepts floor(amount × received / required) SPECIES and credits the remainder; reject fails and credits what was received",
+    "16) Chain registry: the supported chains are the enabled entries of the chains config, each registered at startup with a verifier for its family (evm, tron, solana, ton) and a profile (USDT contract, SPL mint or jetton master; decimals; minConfirmations; finalityDepth; optional moralisChainId); a chain outside the registry → 'payment.failed' chain.unsupported. A new EVM network is config only; a new family adds one ChainVerifier"
   ],
   
   typescript: `// Interfaces
-export type Chain = 'TRON' | 'ETH' | 'BSC';
+// A key of the chains config ('TRON', 'ETH', 'BSC', 'POLYGON', 'ARBITRUM', 'SOLANA', 'TON', ...);
+// VerifierRegistry is the source of truth for which ids are supported
+export type Chain = string;
+
+export type ChainFamily = 'evm' | 'tron' | 'solana' | 'ton';
+
+// 'native' is the chain's registered ChainVerifier
+export type ChainProvider = 'Moralis' | 'native';
+
+export interface ChainProfile {
+  chain: Chain;
+  family: ChainFamily;
+  usdtContract: string;      // ERC-20/TRC-20 contract, SPL mint or jetton master
+  decimals: number;
+  minConfirmations: number;  // acceptance depth
+  finalityDepth: number;     // ConfirmationTracker stops watching here
+  moralisChainId?: string;   // hex id when Moralis indexes the chain
+}
+
+export interface ChainConfig extends ChainProfile {
+  enabled: boolean;
+  endpoint: string;          // JSON-RPC (evm, solana), TronGrid (tron) or TON Center (ton)
+  backupEndpoint?: string;   // TronScan
+  apiKey?: string;
+}
+
+export interface PaymentCheckConfig {
+  maxPaymentAge: number;
+  amountTolerancePercent: number;
+}
 
 export interface EventRequest {
   eventId: string;
@@ -33,12 +66,14 @@ export interface EventRequest {
     currency: 'USDT';
     chain: Chain;
     proof?: string;
+    proofs?: string[];  // split payment: aggregated with proof
     feeProof?: string;
   };
   putProceeds?: {
     usdtAddress: string;
     chain: Chain;
   };
+  quoteId?: string;
 }
 
 export interface MatchProofSubmission {
@@ -50,13 +85,28 @@ export interface MatchProofSubmission {
   proof: string;
 }
 
+// Additional proof toward an admission payment that is awaiting top-up
+export interface TopUpProofSubmission {
+  eventId: string;
+  amount: number;
+  currency: 'USDT';
+  chain: Chain;
+  proof: string;
+}
+
 export interface VerificationResult {
   valid: boolean;
   paymentId: string;
   actualAmount: number;
   confirmations: number;
   network: Chain;
-  provider: 'NOWPayments' | 'TRON' | 'ETH' | 'BSC';
+  provider: 'NOWPayments' | ChainProvider;
+  txHash?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  recipient?: string;       // USDT transfer destination as read from the provider's data, never echoed from config
+                            // (NOWPayments: the payment's pay_address)
+  tokenContract?: string;   // emitting contract of that transfer log; NOWPayments: mapped from pay_currency
   checks: {
     statusCheck: boolean;
     amountCheck: boolean;
@@ -78,6 +128,10 @@ export interface OrderValidated {
     provider: string;
     confirmations: number;
     amountUsdt: number;
+    quoteId?: string;
+    quorum?: { agreeing: number; required: number; sources: QuorumSource[] };
+    proofs?: string[];            // every proof counted toward amountUsdt
+    partialFill?: PartialFill;
   };
   ts: string;
 }
@@ -87,9 +141,11 @@ export interface PaymentConfirmed {
   eventId: string;
   matchId: string;
   amount: number;
-  provider: 'NOWPayments' | 'TRON' | 'ETH' | 'BSC';
+  provider: 'NOWPayments' | ChainProvider;
   providerPaymentId?: string;
   confirmations: number;
+  proofs?: string[];
+  partialFill?: PartialFill;
   ts: string;
 }
 
@@ -104,34 +160,705 @@ export interface PaymentFailed {
     | 'payment.not_complete'
     | 'invalid.token'
     | 'timestamp.expired'
-    | 'verification.error';
+    | 'verification.error'
+    | 'quorum.not_reached'
+    | 'proof.already_used'
+    | 'chain.unsupported';
   details?: any;
   ts: string;
 }
 
+export type UnderpaymentPolicy = 'await_topup' | 'partial_fill' | 'reject';
+
+export interface PaymentPolicy {
+  underpayment: UnderpaymentPolicy;
+  topupWindowSeconds: number;
+  maxProofsPerPayment: number;
+  amountTolerancePercent: number;
+}
+
+export interface PartialFill {
+  requestedAmount: number;  // SPECIES
+  filledAmount: number;     // SPECIES actually paid for
+}
+
+// One per admission payment (matchId absent) or per match
+export interface PaymentAggregate {
+  eventId: string;
+  matchId?: string;
+  onliId: string;           // payer, owner of any credit
+  speciesAmount: number;
+  requiredUsdt: number;
+  receivedUsdt: number;
+  proofs: Array<{ proofKey: string; result: VerificationResult }>;
+  status: 'OPEN' | 'AWAITING_TOPUP' | 'ACCEPTED' | 'REJECTED';
+  topupDeadline?: string;
+}
+
+export interface PaymentPartial {
+  topic: 'payment.partial';
+  eventId: string;
+  matchId?: string;
+  requiredUsdt: number;
+  receivedUsdt: number;
+  remainingUsdt: number;
+  topupDeadline: string;
+  ts: string;
+}
+
+// Refundable USDT credit booked by Cashier
+export interface PaymentCredited {
+  topic: 'payment.credited';
+  eventId: string;
+  matchId?: string;
+  onliId: string;
+  creditUsdt: number;
+  reason: 'overpayment' | 'partial_fill.remainder' | 'underpayment.refund';
+  ts: string;
+}
+
+// Permanent: a proof is never released, even after 'payment.reverted'
+export interface ProofConsumption {
+  proofKey: string;         // 'TRON:<txhash>' | 'ETH:<txhash>' | 'NOWPayments:<npmt_id>'
+  binding: string;          // eventId:matchId, or eventId:admission for payWith proofs
+  consumedAt: string;
+}
+
+// Emitted after acceptance when a reorg removes or invalidates the paying transaction
+export interface PaymentReverted {
+  topic: 'payment.reverted';
+  eventId: string;
+  matchId?: string;          // absent for admission proofs: every fill of the event is affected
+  chain: Chain;
+  txHash: string;
+  amount: number;            // USDT
+  reason: 'tx.dropped' | 'block.reorged';
+  originalBlock: { number: number; hash: string };
+  ts: string;
+}
+
+export interface TrackedPayment {
+  txHash: string;
+  chain: Chain;
+  eventId: string;
+  matchId?: string;
+  amount: number;
+  blockNumber: number;
+  blockHash: string;
+  reorgCount: number;
+  missCount: number;         // consecutive polls that found no inclusion
+  lastError?: string;
+  status: 'TRACKING' | 'FINAL' | 'REVERTED';
+  acceptedAt: string;
+}
+
+// Implemented by MoralisVerifier and every ChainVerifier
+export interface ChainReader {
+  getInclusion(chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null>;
+  latestBlock(chain: Chain): Promise<number>;
+}
+
+// One per chain family; backend selects among a verifier's own backends (TronVerifier: TronGrid/TronScan)
+export interface ChainVerifier extends ChainReader {
+  verifyTransaction(txHash: string, from: string, to: string, amount: number, backend?: string): Promise<VerificationResult>;
+}
+
+// Independent sources for quorum verification (TronGrid/TronScan are the TronVerifier's two backends;
+// 'native' is the chain's registered verifier, whose endpoint must not be Moralis for the vote to be independent)
+export type QuorumSource = 'NOWPayments' | 'Moralis' | 'TronGrid' | 'TronScan' | 'native';
+
+export interface QuorumConfig {
+  thresholdUsdt: number;
+  required: number;                        // M
+  sources: Record<Chain, QuorumSource[]>;  // N per chain
+}
+
+export interface ExpectedTransfer {
+  from: string;
+  to: string;                              // Marketplace deposit address; NOWPayments' pay_address for npmt_ proofs
+  amount: number;
+}
+
+export interface ProviderAnswer {
+  source: QuorumSource;
+  result?: VerificationResult;
+  error?: string;
+  agrees: boolean;
+  latencyMs: number;
+}
+
+export interface QuorumDecision {
+  required: number;
+  agreeing: number;
+  reached: boolean;
+  actualAmount?: number;   // what the agreeing sources read for this proof; the aggregate compares it with the order
+  answers: ProviderAnswer[];
+}
+
+// Moralis Streams webhook body (only the fields the Validator reads)
+export interface MoralisStreamPayload {
+  confirmed: boolean;
+  chainId: string;          // hex, matched against chains.<chain>.moralisChainId
+  streamId: string;
+  tag: string;
+  block: { number: string; hash: string; timestamp: string };
+  erc20Transfers: Array<{
+    transactionHash: string;
+    contract: string;
+    from: string;
+    to: string;
+    value: string;          // raw token units
+    tokenDecimals: string;
+  }>;
+}
+
+// Proof recorded while it waits for confirmations, keyed by lowercase tx hash
+export interface AwaitingProof {
+  eventId: string;
+  matchId: string;
+  chain: Chain;
+  from: string;
+  to: string;
+  amount: number;
+}
+
 // Service implementation
 export class ValidatorService {
   constructor(
     private nowPayments: NOWPaymentsClient,
-    private tronVerifier: TronVerifier,
-    private ethVerifier: EthereumVerifier,
-    private bscVerifier: BSCVerifier,
+    private verifiers: VerifierRegistry,
+    private moralis: MoralisVerifier,
     private cache: CacheService,
     private circuitBreaker: CircuitBreaker,
-    private eventBus: EventBus
+    private eventBus: EventBus,
+    private quotes: QuoteStore,
+    private providerPriority: Record<Chain, ChainProvider[]>,
+    private quorum: QuorumConfig,
+    private audit: AuditLog,
+    private proofs: ProofRegistry,
+    private payments: PaymentAggregator,
+    private tracker: ConfirmationTracker,
+    private db: Database
   ) {}
   
-  async validatePaymentProof(req: EventRequest): Promise<OrderValidated | PaymentFailed> {
-    // Implementation with dual-path verification
+  async validatePaymentProof(req: EventRequest): Promise<OrderValidated | PaymentPartial | PaymentFailed> {
+    // Implementation with dual-path verification; verifyWithQuorum above quorum.thresholdUsdt;
+    // 'chain.unsupported' unless this.verifiers.has(req.payWith.chain); nothing at all if isCancelled
+  }
+  
+  async verifyMatchProof(sub: MatchProofSubmission): Promise<PaymentConfirmed | PaymentPartial | PaymentFailed> {
+    // Implementation for post-match verification; a valid transfer goes through acceptMatchProof
   }
   
-  async verifyMatchProof(sub: MatchProofSubmission): Promise<PaymentConfirmed | PaymentFailed> {
-    // Implementation for post-match verification
+  async verifyTopUpProof(sub: TopUpProofSubmission): Promise<OrderValidated | PaymentPartial | PaymentFailed> {
+    // Same checks as admission, then added to the event's AWAITING_TOPUP aggregate
   }
   
-  async handleWebhook(provider: string, payload: any, signature: string): Promise<void> {
+  // Signatures cover the bytes as sent, so the raw body is verified before it is parsed
+  async handleWebhook(provider: string, rawBody: string, signature: string): Promise<void> {
+    if (provider === 'moralis') {
+      return this.handleMoralisStream(rawBody, signature);
+    }
     // Webhook processing with signature verification
   }
+  
+  // Circuits are per provider, so one provider being down only shifts traffic to the next in line
+  private async verifyOnChain(chain: Chain, txHash: string, from: string, to: string, amount: number): Promise<VerificationResult> {
+    let lastError: unknown;
+    for (const provider of this.providerPriority[chain] ?? ['native']) {
+      const circuit = provider === 'native' ? chain : provider;
+      if (this.circuitBreaker.isOpen(circuit)) continue;
+      try {
+        return await this.circuitBreaker.execute(circuit, () => this.callProvider(provider, chain, txHash, from, to, amount));
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError ?? new Error(\`No verification provider available for \${chain}\`);
+  }
+  
+  private callProvider(
+    provider: ChainProvider,
+    chain: Chain,
+    txHash: string,
+    from: string,
+    to: string,
+    amount: number
+  ): Promise<VerificationResult> {
+    switch (provider) {
+      case 'Moralis': return this.moralis.verifyTransaction(chain, txHash, from, to, amount);
+      case 'native': return this.verifiers.get(chain).verifyTransaction(txHash, from, to, amount);
+    }
+  }
+  
+  // Runs after verification succeeds so a failed or foreign proof never blocks the legitimate payer
+  private async consumeProof(
+    chain: Chain,
+    proof: string,
+    result: VerificationResult,
+    eventId: string,
+    matchId?: string
+  ): Promise<PaymentFailed | null> {
+    const keys = [ProofRegistry.keyFor(chain, proof)];
+    if (result.provider === 'NOWPayments' && result.txHash) {
+      keys.push(ProofRegistry.keyFor(chain, result.txHash)); // the same on-chain payment as a raw hash
+    }
+    
+    const conflict = await this.proofs.bind(keys, \`\${eventId}:\${matchId ?? 'admission'}\`);
+    if (!conflict) return null;
+    return {
+      topic: 'payment.failed',
+      eventId,
+      reason: 'proof.already_used',
+      details: { proofKey: conflict.proofKey, consumedAt: conflict.consumedAt },
+      ts: new Date().toISOString()
+    };
+  }
+  
+  // Above quorum.thresholdUsdt no single provider decides: one compromised explorer cannot mint SPECIES
+  private async verifyWithQuorum(eventId: string, proof: string, chain: Chain, expected: ExpectedTransfer): Promise<QuorumDecision> {
+    const asked: Array<Omit<ProviderAnswer, 'agrees'>> = [];
+    let txHash = proof;
+    let target = expected;
+    if (proof.startsWith('npmt_')) {
+      const answer = await this.askSource('NOWPayments', chain, proof, expected);
+      asked.push(answer);
+      txHash = answer.result?.txHash ?? '';
+      // The payer paid NOWPayments' pay_address, not our deposit address; explorers must see that transfer
+      if (answer.result?.recipient) target = { ...expected, to: answer.result.recipient };
+    }
+    
+    // A chain enabled by config alone may have no sources yet: that is a failed quorum, not a crash
+    const explorers = (this.quorum.sources[chain] ?? []).filter(source => source !== 'NOWPayments');
+    asked.push(...await Promise.all(explorers.map(source => this.askSource(source, chain, txHash, target))));
+    
+    // A split-payment proof carries only part of the order, so sources agree on the amount they read
+    // for this proof (the one most of them report), not on the order total
+    const actualAmount = this.mostReported(asked.flatMap(answer => answer.result ? [answer.result.actualAmount] : []));
+    const answers: ProviderAnswer[] = asked.map(answer => ({
+      ...answer,
+      agrees: !!answer.result && this.agrees(chain, answer.result, target, actualAmount)
+    }));
+    
+    for (const answer of answers) {
+      await this.audit.record('validator.quorum_answer', { eventId, proof, chain, ...answer, ts: new Date().toISOString() });
+    }
+    const agreeing = answers.filter(answer => answer.agrees).length;
+    return { required: this.quorum.required, agreeing, reached: agreeing >= this.quorum.required, actualAmount, answers };
+  }
+  
+  private async askSource(
+    source: QuorumSource,
+    chain: Chain,
+    ref: string,
+    expected: ExpectedTransfer
+  ): Promise<Omit<ProviderAnswer, 'agrees'>> {
+    const started = Date.now();
+    if (!ref) {
+      return { source, error: 'No transaction hash to look up', latencyMs: 0 };
+    }
+    try {
+      const circuit = source === 'native' ? chain : source;
+      const result = await this.circuitBreaker.execute(circuit, () => this.querySource(source, chain, ref, expected));
+      return { source, result, latencyMs: Date.now() - started };
+    } catch (error) {
+      return { source, error: error.message, latencyMs: Date.now() - started };
+    }
+  }
+  
+  private mostReported(amounts: number[]): number | undefined {
+    const counts = new Map<number, number>();
+    for (const amount of amounts) counts.set(amount, (counts.get(amount) ?? 0) + 1);
+    let best: number | undefined;
+    for (const [amount, count] of counts) {
+      if (best === undefined || count > counts.get(best)!) best = amount;
+    }
+    return best;
+  }
+  
+  private querySource(source: QuorumSource, chain: Chain, ref: string, expected: ExpectedTransfer): Promise<VerificationResult> {
+    const { from, to, amount } = expected;
+    switch (source) {
+      case 'NOWPayments': return this.nowPayments.verifyPayment(ref, amount);
+      case 'Moralis': return this.moralis.verifyTransaction(chain, ref, from, to, amount);
+      case 'TronGrid':
+      case 'TronScan': return this.verifiers.get(chain).verifyTransaction(ref, from, to, amount, source);
+      case 'native': return this.verifiers.get(chain).verifyTransaction(ref, from, to, amount);
+    }
+  }
+  
+  // Recipient and contract come from each provider's own reading of the logs and are compared with our config;
+  // the amount is compared with what the other sources read, the aggregate checks it against the order
+  private agrees(chain: Chain, result: VerificationResult, expected: ExpectedTransfer, actualAmount?: number): boolean {
+    return PaymentAggregator.acceptsProof(result)
+      && result.actualAmount === actualAmount
+      && result.recipient?.toLowerCase() === expected.to.toLowerCase()
+      && result.tokenContract?.toLowerCase() === this.verifiers.profile(chain).usdtContract.toLowerCase();
+  }
+  
+  // Moralis delivers each block twice (confirmed=false, then true); only the confirmed delivery counts
+  private async handleMoralisStream(rawBody: string, signature: string): Promise<void> {
+    if (!this.moralis.verifyStreamSignature(rawBody, signature)) {
+      throw new Error('Invalid Moralis stream signature');
+    }
+    const payload: MoralisStreamPayload = JSON.parse(rawBody);
+    const chain = this.moralis.chainFor(payload.chainId);
+    if (!payload.confirmed || !chain) return;
+    
+    for (const transfer of payload.erc20Transfers) {
+      if (!this.moralis.isUsdtContract(chain, transfer.contract)) continue;
+      const key = \`awaiting-proof:\${transfer.transactionHash.toLowerCase()}\`;
+      const awaiting: AwaitingProof | null = await this.cache.get(key);
+      if (!awaiting) continue;
+      
+      const result = await this.moralis.verifyTransaction(chain, transfer.transactionHash, awaiting.from, awaiting.to, awaiting.amount);
+      if (!PaymentAggregator.acceptsProof(result)) continue;  // left for the polling path to fail with a specific reason
+      
+      // Only once accepted: a failure leaves the entry for the next delivery or the polling path
+      await this.acceptMatchProof({
+        eventId: awaiting.eventId,
+        matchId: awaiting.matchId,
+        amount: awaiting.amount,
+        currency: 'USDT',
+        chain,
+        proof: transfer.transactionHash
+      }, result);
+      await this.cache.delete(key);
+    }
+  }
+  
+  // Shared by verifyMatchProof and the Moralis stream, so no path skips binding, aggregation or tracking
+  // PaymentAggregator emits 'payment.confirmed' or 'payment.partial'; a reused proof is failed here
+  private async acceptMatchProof(sub: MatchProofSubmission, result: VerificationResult): Promise<void> {
+    if (await this.isCancelled(sub.eventId, sub.proof)) return;
+    const failed = await this.consumeProof(sub.chain, sub.proof, result, sub.eventId, sub.matchId);
+    if (failed) {
+      return this.eventBus.publish(failed);
+    }
+    
+    const settled = await this.payments.addProof(sub.eventId, sub.matchId, ProofRegistry.keyFor(sub.chain, sub.proof), result);
+    if (settled?.status === 'ACCEPTED') {
+      // Every proof of the aggregate backs the acceptance, so each one is watched to finality
+      for (const proof of settled.proofs) {
+        const { txHash, blockNumber, blockHash, actualAmount } = proof.result;
+        if (!txHash || blockNumber === undefined || !blockHash) continue;
+        await this.tracker.track({
+          txHash,
+          chain: sub.chain,
+          eventId: sub.eventId,
+          matchId: sub.matchId,
+          amount: actualAmount,
+          blockNumber,
+          blockHash,
+          acceptedAt: new Date().toISOString()
+        });
+      }
+    }
+  }
+  
+  // Matching and AssetManager apply the same check; cancellation already voided the payment session
+  private async isCancelled(eventId: string, proof: string): Promise<boolean> {
+    const ingress = await this.db.getEventIngress(eventId);
+    if (ingress?.status !== 'CANCELLED') return false;
+    await this.audit.record('validator.skipped_cancelled', { eventId, proof, ts: new Date().toISOString() });
+    return true;
+  }
+  
+  // A quote committed at ingress fixes the amount; only unquoted requests are recomputed
+  private async expectedAmount(req: EventRequest): Promise<number> {
+    if (req.quoteId) {
+      const quote = await this.quotes.getCommitted(req.quoteId, req.eventId);
+      return quote.totalUsdt;
+    }
+    return this.computeExpectedUsdt(req);
+  }
+}
+
+// Sums individually verified proofs and applies the over/under-payment policy
+export class PaymentAggregator {
+  constructor(
+    private db: Database,
+    private eventBus: EventBus,
+    private policy: PaymentPolicy
+  ) {}
+  
+  // A proof is verified against the whole payment, so amountCheck fails for a partial one by design;
+  // the aggregate makes that comparison instead
+  static acceptsProof(result: VerificationResult): boolean {
+    return Object.entries(result.checks).every(([check, ok]) => ok || check === 'amountCheck')
+      && result.actualAmount > 0;
+  }
+  
+  // Read, append and save under the event lock, so split-payment proofs verified at the same time
+  // cannot overwrite each other's receivedUsdt. Returns null when there is nothing to do: the proof
+  // is already counted or the payment already settled (polling and the Moralis stream race on a tx)
+  async addProof(
+    eventId: string,
+    matchId: string | undefined,
+    proofKey: string,
+    result: VerificationResult
+  ): Promise<PaymentAggregate | null> {
+    if (!PaymentAggregator.acceptsProof(result)) {
+      throw new Error(\`Proof \${proofKey} did not pass verification\`);
+    }
+    return this.db.withEventLock(eventId, async (tx) => {
+      const aggregate = await tx.getPaymentAggregate(eventId, matchId);
+      if (aggregate.proofs.some(proof => proof.proofKey === proofKey)) return null;
+      if (aggregate.status !== 'OPEN' && aggregate.status !== 'AWAITING_TOPUP') return null;
+      if (aggregate.proofs.length >= this.policy.maxProofsPerPayment) {
+        throw new Error(\`Payment already has \${this.policy.maxProofsPerPayment} proofs\`);
+      }
+      const updated: PaymentAggregate = {
+        ...aggregate,
+        proofs: [...aggregate.proofs, { proofKey, result }],
+        receivedUsdt: toUsdt(aggregate.receivedUsdt + result.actualAmount)
+      };
+      await tx.savePaymentAggregate(updated);
+      return this.settle(updated, tx);
+    });
+  }
+  
+  private async settle(aggregate: PaymentAggregate, tx: Transaction): Promise<PaymentAggregate> {
+    const tolerance = aggregate.requiredUsdt * this.policy.amountTolerancePercent / 100;
+    const shortfall = toUsdt(aggregate.requiredUsdt - aggregate.receivedUsdt);
+    
+    if (shortfall <= tolerance) {
+      if (-shortfall > tolerance) {
+        await this.credit(aggregate, -shortfall, 'overpayment');
+      }
+      return this.accept(aggregate, aggregate.speciesAmount, tx);
+    }
+    
+    switch (this.policy.underpayment) {
+      case 'await_topup': {
+        const topupDeadline = aggregate.topupDeadline
+          ?? new Date(Date.now() + this.policy.topupWindowSeconds * 1000).toISOString();
+        const waiting = { ...aggregate, status: 'AWAITING_TOPUP' as const, topupDeadline };
+        await tx.savePaymentAggregate(waiting);
+        await this.eventBus.publish({
+          topic: 'payment.partial',
+          eventId: aggregate.eventId,
+          matchId: aggregate.matchId,
+          requiredUsdt: aggregate.requiredUsdt,
+          receivedUsdt: aggregate.receivedUsdt,
+          remainingUsdt: shortfall,
+          topupDeadline,
+          ts: new Date().toISOString()
+        });
+        return waiting;
+      }
+      case 'partial_fill': {
+        // Fees scale with the filled share, so the price per SPECIES stays as quoted
+        const filled = Math.floor(aggregate.speciesAmount * aggregate.receivedUsdt / aggregate.requiredUsdt);
+        if (filled < 1) return this.reject(aggregate, tx);
+        const cost = toUsdt(aggregate.requiredUsdt * filled / aggregate.speciesAmount);
+        await this.credit(aggregate, aggregate.receivedUsdt - cost, 'partial_fill.remainder');
+        return this.accept(aggregate, filled, tx);
+      }
+      case 'reject':
+        return this.reject(aggregate, tx);
+    }
+  }
+  
+  // Scheduled: top-up windows that closed short are rejected and what was received is credited
+  async expireTopups(): Promise<number> {
+    const expired = await this.db.listPaymentAggregates({ status: 'AWAITING_TOPUP', deadlineBefore: new Date() });
+    let rejected = 0;
+    for (const { eventId, matchId } of expired) {
+      // Re-read under the lock: a top-up that landed since the listing may have settled it
+      await this.db.withEventLock(eventId, async (tx) => {
+        const aggregate = await tx.getPaymentAggregate(eventId, matchId);
+        if (aggregate.status !== 'AWAITING_TOPUP') return;
+        await this.reject(aggregate, tx);
+        rejected++;
+      });
+    }
+    return rejected;
+  }
+  
+  private async accept(aggregate: PaymentAggregate, filledAmount: number, tx: Transaction): Promise<PaymentAggregate> {
+    const accepted = { ...aggregate, status: 'ACCEPTED' as const };
+    await tx.savePaymentAggregate(accepted);
+    // order.validated (admission) or payment.confirmed (match) with evidence.proofs and partialFill
+    await this.emitAccepted(accepted, filledAmount < aggregate.speciesAmount
+      ? { requestedAmount: aggregate.speciesAmount, filledAmount }
+      : undefined);
+    return accepted;
+  }
+  
+  private async reject(aggregate: PaymentAggregate, tx: Transaction): Promise<PaymentAggregate> {
+    const rejected = { ...aggregate, status: 'REJECTED' as const };
+    await tx.savePaymentAggregate(rejected);
+    if (aggregate.receivedUsdt > 0) {
+      await this.credit(aggregate, aggregate.receivedUsdt, 'underpayment.refund');
+    }
+    await this.eventBus.publish({
+      topic: 'payment.failed',
+      eventId: aggregate.eventId,
+      reason: 'amount.mismatch',
+      details: { requiredUsdt: aggregate.requiredUsdt, receivedUsdt: aggregate.receivedUsdt },
+      ts: new Date().toISOString()
+    });
+    return rejected;
+  }
+  
+  private async credit(aggregate: PaymentAggregate, creditUsdt: number, reason: PaymentCredited['reason']): Promise<void> {
+    await this.eventBus.publish({
+      topic: 'payment.credited',
+      eventId: aggregate.eventId,
+      matchId: aggregate.matchId,
+      onliId: aggregate.onliId,
+      creditUsdt: toUsdt(creditUsdt),
+      reason,
+      ts: new Date().toISOString()
+    });
+  }
+}
+
+// proof_consumption has a unique index on proof_key; the insert is the atomic bind
+export class ProofRegistry {
+  constructor(private db: Database) {}
+  
+  static keyFor(chain: Chain, proof: string): string {
+    if (proof.startsWith('npmt_')) return \`NOWPayments:\${proof}\`;
+    // Hex hashes are case-insensitive; base58 (Solana) and base64 references are kept verbatim
+    const hex = /^(0x)?[0-9a-fA-F]{64}$/.test(proof);
+    return \`\${chain}:\${hex ? proof.toLowerCase().replace(/^0x/, '') : proof}\`;
+  }
+  
+  // Returns the conflicting consumption, or null once every key is bound to this binding
+  async bind(proofKeys: string[], binding: string): Promise<ProofConsumption | null> {
+    return this.db.transaction(async (tx) => {
+      const consumedAt = new Date().toISOString();
+      for (const proofKey of proofKeys) {
+        const existing = await tx.insertProofConsumptionIfAbsent({ proofKey, binding, consumedAt });
+        if (existing && existing.binding !== binding) {
+          await tx.rollback();
+          return existing;
+        }
+      }
+      return null;
+    });
+  }
+}
+
+// Watches accepted payments past the chain's minConfirmations up to its finalityDepth
+export class ConfirmationTracker {
+  constructor(
+    private db: Database,
+    private verifiers: VerifierRegistry,
+    private eventBus: EventBus,
+    private revalidate: (payment: TrackedPayment) => Promise<VerificationResult>,
+    private dropAfterMisses: number
+  ) {}
+  
+  async track(payment: Omit<TrackedPayment, 'status' | 'reorgCount' | 'missCount'>): Promise<void> {
+    await this.db.insertTrackedPayment({ ...payment, status: 'TRACKING', reorgCount: 0, missCount: 0 });
+  }
+  
+  // Scheduled every finality.pollIntervalSeconds; one failing RPC must not stall the others
+  async poll(): Promise<void> {
+    for (const payment of await this.db.listTrackedPayments('TRACKING')) {
+      try {
+        await this.check(payment);
+      } catch (error) {
+        await this.db.updateTrackedPayment(payment.txHash, { lastError: error.message });
+      }
+    }
+  }
+  
+  private async check(payment: TrackedPayment): Promise<void> {
+    const reader = this.verifiers.get(payment.chain);
+    const inclusion = await reader.getInclusion(payment.chain, payment.txHash);
+    if (!inclusion) {
+      const missCount = payment.missCount + 1;
+      if (missCount < this.dropAfterMisses) {
+        return this.db.updateTrackedPayment(payment.txHash, { missCount });
+      }
+      return this.revert(payment, 'tx.dropped');
+    }
+    
+    if (inclusion.blockHash !== payment.blockHash) {
+      // Re-included in another block: confirmations restart there, so every check but that one must still pass
+      const result = await this.revalidate({ ...payment, ...inclusion });
+      const stillValid = Object.entries(result.checks).every(([check, ok]) => ok || check === 'confirmationCheck');
+      if (!stillValid) {
+        return this.revert(payment, 'block.reorged');
+      }
+      await this.db.updateTrackedPayment(payment.txHash, { ...inclusion, reorgCount: payment.reorgCount + 1, missCount: 0 });
+      return;
+    }
+    
+    if (payment.missCount > 0) {
+      await this.db.updateTrackedPayment(payment.txHash, { missCount: 0 });
+    }
+    
+    const latest = await reader.latestBlock(payment.chain);
+    if (latest - inclusion.blockNumber + 1 >= this.verifiers.profile(payment.chain).finalityDepth) {
+      await this.db.updateTrackedPayment(payment.txHash, { status: 'FINAL' });
+    }
+  }
+  
+  private async revert(payment: TrackedPayment, reason: PaymentReverted['reason']): Promise<void> {
+    await this.db.updateTrackedPayment(payment.txHash, { status: 'REVERTED' });
+    await this.eventBus.publish({
+      topic: 'payment.reverted',
+      eventId: payment.eventId,
+      matchId: payment.matchId,
+      chain: payment.chain,
+      txHash: payment.txHash,
+      amount: payment.amount,
+      reason,
+      originalBlock: { number: payment.blockNumber, hash: payment.blockHash },
+      ts: new Date().toISOString()
+    });
+  }
+}
+
+// Supported chains and their verifiers, built once at startup from the chains config
+export class VerifierRegistry {
+  private entries = new Map<Chain, { config: ChainConfig; verifier: ChainVerifier }>();
+  
+  static fromConfig(http: HttpClient, chains: Record<Chain, Omit<ChainConfig, 'chain'>>, validation: PaymentCheckConfig): VerifierRegistry {
+    const registry = new VerifierRegistry();
+    for (const [chain, settings] of Object.entries(chains)) {
+      if (!settings.enabled) continue;
+      const config = { ...settings, chain };
+      registry.register(config, new VERIFIER_FAMILIES[config.family](http, config, validation));
+    }
+    return registry;
+  }
+  
+  register(config: ChainConfig, verifier: ChainVerifier): void {
+    if (this.entries.has(config.chain)) {
+      throw new Error(\`Chain \${config.chain} is already registered\`);
+    }
+    this.entries.set(config.chain, { config, verifier });
+  }
+  
+  has(chain: Chain): boolean {
+    return this.entries.has(chain);
+  }
+  
+  get(chain: Chain): ChainVerifier {
+    return this.entry(chain).verifier;
+  }
+  
+  profile(chain: Chain): ChainProfile {
+    return this.entry(chain).config;
+  }
+  
+  profiles(): ChainProfile[] {
+    return [...this.entries.values()].map(entry => entry.config);
+  }
+  
+  private entry(chain: Chain): { config: ChainConfig; verifier: ChainVerifier } {
+    const entry = this.entries.get(chain);
+    if (!entry) {
+      throw new Error(\`Unsupported chain: \${chain}\`);
+    }
+    return entry;
+  }
 }
 
 // Provider clients
@@ -139,15 +866,261 @@ export class NOWPaymentsClient {
   async verifyPayment(paymentId: string, expectedAmount: number): Promise<VerificationResult> {}
 }
 
-export class TronVerifier {
+export class TronVerifier implements ChainVerifier {
+  constructor(
+    private http: HttpClient,
+    private config: ChainConfig,
+    private validation: PaymentCheckConfig
+  ) {}
+  
+  // via: endpoint (TronGrid) by default; quorum queries both backends as separate sources
+  async verifyTransaction(
+    txHash: string,
+    from: string,
+    to: string,
+    amount: number,
+    via: 'TronGrid' | 'TronScan' = 'TronGrid'
+  ): Promise<VerificationResult> {}
+  
+  async getInclusion(_chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {}
+  
+  async latestBlock(): Promise<number> {}
+}
+
+// Raw token units → USDT at 6-decimal precision (USDT is 6 decimals on most chains, 18 on BSC)
+const fromTokenUnits = (raw: bigint, decimals: number): number =>
+  decimals >= 6 ? Number(raw / 10n ** BigInt(decimals - 6)) / 1e6 : Number(raw) / 10 ** decimals;
+
+// keccak256('Transfer(address,address,uint256)')
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const topicToAddress = (topic: string): string => '0x' + topic.slice(-40).toLowerCase();
+
+interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface EvmReceipt {
+  status: string;        // '0x1' success
+  blockNumber: string;
+  blockHash: string;
+  logs: EvmLog[];
+}
+
+// ERC-20 USDT verification over plain JSON-RPC; ETH, BSC, Polygon and Arbitrum differ only in config
+export class EvmUsdtVerifier implements ChainVerifier {
+  constructor(
+    private http: HttpClient,
+    private config: ChainConfig,
+    private validation: PaymentCheckConfig
+  ) {}
+  
+  // Receipt not found throws (node lag is not a verdict), so provider priority falls through
+  async verifyTransaction(txHash: string, from: string, to: string, amount: number): Promise<VerificationResult> {
+    const receipt = await this.rpc<EvmReceipt | null>('eth_getTransactionReceipt', [txHash]);
+    if (!receipt) {
+      throw new Error(\`\${this.config.chain} receipt not found for \${txHash}\`);
+    }
+    const [latest, block] = await Promise.all([
+      this.rpc<string>('eth_blockNumber', []),
+      this.rpc<{ timestamp: string }>('eth_getBlockByNumber', [receipt.blockNumber, false])
+    ]);
+    
+    // Sum every USDT Transfer to the recipient (and from the payer, when known) in this tx
+    const transfers = receipt.logs
+      .filter(log => log.address.toLowerCase() === this.config.usdtContract.toLowerCase()
+        && log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3)
+      .map(log => ({ contract: log.address, from: topicToAddress(log.topics[1]), to: topicToAddress(log.topics[2]), value: BigInt(log.data) }))
+      .filter(transfer => transfer.to === to.toLowerCase() && (!from || transfer.from === from.toLowerCase()));
+    
+    const actualAmount = fromTokenUnits(transfers.reduce((sum, t) => sum + t.value, 0n), this.config.decimals);
+    const confirmations = Number(BigInt(latest) - BigInt(receipt.blockNumber)) + 1;
+    const checks = {
+      statusCheck: receipt.status === '0x1',
+      amountCheck: Math.abs(actualAmount - amount) <= amount * this.validation.amountTolerancePercent / 100,
+      currencyCheck: transfers.length > 0,
+      confirmationCheck: confirmations >= this.config.minConfirmations,
+      timestampCheck: Date.now() - Number(BigInt(block.timestamp)) * 1000 <= this.validation.maxPaymentAge * 1000
+    };
+    
+    return {
+      valid: Object.values(checks).every(Boolean),
+      paymentId: txHash,
+      actualAmount,
+      confirmations,
+      network: this.config.chain,
+      provider: 'native',
+      txHash,
+      blockNumber: Number(BigInt(receipt.blockNumber)),
+      blockHash: receipt.blockHash,
+      recipient: transfers[0]?.to,
+      tokenContract: transfers[0]?.contract,
+      checks,
+      timestamp: new Date()
+    };
+  }
+  
+  async getInclusion(_chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    const receipt = await this.rpc<EvmReceipt | null>('eth_getTransactionReceipt', [txHash]);
+    return receipt ? { blockNumber: Number(BigInt(receipt.blockNumber)), blockHash: receipt.blockHash } : null;
+  }
+  
+  async latestBlock(): Promise<number> {
+    return Number(BigInt(await this.rpc<string>('eth_blockNumber', [])));
+  }
+  
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const res = await this.http.post(this.config.endpoint, { jsonrpc: '2.0', id: 1, method, params });
+    if (res.error) {
+      throw new Error(\`\${this.config.chain} \${method} failed: \${res.error.message}\`);
+    }
+    return res.result;
+  }
+}
+
+// SPL USDT over Solana JSON-RPC; the proof is the transaction signature and slots stand in for blocks
+export class SolanaVerifier implements ChainVerifier {
+  constructor(
+    private http: HttpClient,
+    private config: ChainConfig,
+    private validation: PaymentCheckConfig
+  ) {}
+  
+  // getTransaction (jsonParsed): amount is the post − pre token balance of usdtContract owned by the recipient;
+  // confirmations from getSignatureStatuses (null once finalized, counted as finalityDepth)
+  async verifyTransaction(txHash: string, from: string, to: string, amount: number): Promise<VerificationResult> {}
+  
+  // Slot of the transaction and that slot's blockhash; null when the fork it landed on was skipped
+  async getInclusion(_chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {}
+  
+  // getSlot at 'confirmed' commitment
+  async latestBlock(): Promise<number> {}
+}
+
+// USDT jetton over the TON Center v3 API; masterchain seqno stands in for block number
+export class TonVerifier implements ChainVerifier {
+  constructor(
+    private http: HttpClient,
+    private config: ChainConfig,
+    private validation: PaymentCheckConfig
+  ) {}
+  
+  // /jetton/transfers?transaction_hash=: jetton_master must be usdtContract and destination the deposit owner;
+  // addresses are compared in raw workchain:hex form
   async verifyTransaction(txHash: string, from: string, to: string, amount: number): Promise<VerificationResult> {}
-}`,
+  
+  async getInclusion(_chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {}
+  
+  async latestBlock(): Promise<number> {}
+}
+
+export class MoralisVerifier {
+  constructor(
+    private http: HttpClient,
+    private config: {
+      apiUrl: string;
+      apiKey: string;
+      streamSecret: string;
+    },
+    private chains: VerifierRegistry,
+    private validation: PaymentCheckConfig
+  ) {}
+  
+  async verifyTransaction(chain: Chain, txHash: string, from: string, to: string, amount: number): Promise<VerificationResult> {
+    const { moralisChainId: chainId, usdtContract: contract, decimals, minConfirmations } = this.profile(chain);
+    const headers = { 'X-API-Key': this.config.apiKey };
+    const tx = await this.http.get(\`\${this.config.apiUrl}/transaction/\${txHash}/verbose?chain=\${chainId}\`, { headers });
+    const latestBlock = await this.http.get(\`\${this.config.apiUrl}/latestBlockNumber/\${chainId}\`, { headers });
+    
+    // Same rule as EvmUsdtVerifier: sum every USDT Transfer to the recipient (and from the payer, when known)
+    const transfers: Array<{ contract: string; from: string; to: string; value: string }> = tx.logs
+      .filter((log: any) => log.address.toLowerCase() === contract.toLowerCase() && log.decoded_event?.label === 'Transfer')
+      .map((log: any) => ({ contract: log.address, ...Object.fromEntries(log.decoded_event.params.map((p: any) => [p.name, p.value])) }))
+      .filter((params: any) => params.to.toLowerCase() === to.toLowerCase()
+        && (!from || params.from.toLowerCase() === from.toLowerCase()));
+    
+    const actualAmount = fromTokenUnits(transfers.reduce((sum, t) => sum + BigInt(t.value), 0n), decimals);
+    const confirmations = Number(latestBlock) - Number(tx.block_number) + 1;
+    const checks = {
+      statusCheck: tx.receipt_status === '1',
+      amountCheck: Math.abs(actualAmount - amount) <= amount * this.validation.amountTolerancePercent / 100,
+      currencyCheck: transfers.length > 0,
+      confirmationCheck: confirmations >= minConfirmations,
+      timestampCheck: Date.now() - new Date(tx.block_timestamp).getTime() <= this.validation.maxPaymentAge * 1000
+    };
+    
+    return {
+      valid: Object.values(checks).every(Boolean),
+      paymentId: txHash,
+      actualAmount,
+      confirmations,
+      network: chain,
+      provider: 'Moralis',
+      txHash,
+      blockNumber: Number(tx.block_number),
+      blockHash: tx.block_hash,
+      recipient: transfers[0]?.to.toLowerCase(),
+      tokenContract: transfers[0]?.contract,
+      checks,
+      timestamp: new Date()
+    };
+  }
+  
+  async getInclusion(chain: Chain, txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    const chainId = this.profile(chain).moralisChainId;
+    const tx = await this.http.get(\`\${this.config.apiUrl}/transaction/\${txHash}?chain=\${chainId}\`, {
+      headers: { 'X-API-Key': this.config.apiKey },
+      notFound: null
+    });
+    return tx ? { blockNumber: Number(tx.block_number), blockHash: tx.block_hash } : null;
+  }
+  
+  async latestBlock(chain: Chain): Promise<number> {
+    const chainId = this.profile(chain).moralisChainId;
+    return Number(await this.http.get(\`\${this.config.apiUrl}/latestBlockNumber/\${chainId}\`, { headers: { 'X-API-Key': this.config.apiKey } }));
+  }
+  
+  isUsdtContract(chain: Chain, address: string): boolean {
+    return this.chains.profile(chain).usdtContract.toLowerCase() === address.toLowerCase();
+  }
+  
+  // Stream deliveries carry the hex chain id; chains without a moralisChainId are never matched
+  chainFor(moralisChainId: string): Chain | undefined {
+    return this.chains.profiles().find(profile => profile.moralisChainId === moralisChainId)?.chain;
+  }
+  
+  // Over the raw body: re-serialising the parsed payload would not reproduce Moralis's bytes
+  verifyStreamSignature(rawBody: string, signature: string): boolean {
+    const expected = Buffer.from(keccak256(rawBody + this.config.streamSecret).replace(/^0x/, ''), 'hex');
+    const actual = Buffer.from(signature.replace(/^0x/, ''), 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+  
+  // Throws for chains Moralis does not index, so provider priority falls through to the native verifier
+  private profile(chain: Chain): ChainProfile & { moralisChainId: string } {
+    const profile = this.chains.profile(chain);
+    if (!profile.moralisChainId) {
+      throw new Error(\`Moralis does not index \${chain}\`);
+    }
+    return profile as ChainProfile & { moralisChainId: string };
+  }
+}
+
+// A new chain family registers its verifier here; a new network of an existing family is config only
+const VERIFIER_FAMILIES: Record<ChainFamily, new (http: HttpClient, config: ChainConfig, validation: PaymentCheckConfig) => ChainVerifier> = {
+  evm: EvmUsdtVerifier,
+  tron: TronVerifier,
+  solana: SolanaVerifier,
+  ton: TonVerifier
+};`,
 
   json: `{
   "$schema": "https://json-schema.org/draft/2020-12/schema",
   "title": "Validator Service Configuration",
   "type": "object",
-  "required": ["service", "providers", "validation", "cache", "circuitBreaker"],
+  "required": ["service", "providers", "chains", "validation", "cache", "circuitBreaker"],
   "properties": {
     "service": {
       "type": "object",
@@ -159,6 +1132,14 @@ export class TronVerifier {
     "providers": {
       "type": "object",
       "properties": {
+        "moralis": {
+          "type": "object",
+          "properties": {
+            "apiUrl": { "type": "string", "default": "https://deep-index.moralis.io/api/v2.2" },
+            "apiKey": { "type": "string" },
+            "streamSecret": { "type": "string" }
+          }
+        },
         "nowpayments": {
           "type": "object",
           "properties": {
@@ -167,41 +1148,92 @@ export class TronVerifier {
             "apiSecret": { "type": "string" },
             "webhookSecret": { "type": "string" }
           }
+        }
+      }
+    },
+    "chains": {
+      "type": "object",
+      "description": "Verifier registry, keyed by Chain id; a request on a chain not enabled here fails with chain.unsupported. Default endpoints are public and rate-limited; production points them at its own nodes or keyed providers",
+      "additionalProperties": {
+        "type": "object",
+        "required": ["family", "endpoint", "usdtContract", "decimals", "minConfirmations", "finalityDepth"],
+        "properties": {
+          "enabled": { "type": "boolean", "default": true },
+          "family": { "enum": ["evm", "tron", "solana", "ton"] },
+          "endpoint": { "type": "string", "format": "uri", "description": "JSON-RPC (evm, solana), TronGrid (tron) or TON Center (ton); provider keys go in the URL" },
+          "backupEndpoint": { "type": "string", "format": "uri", "description": "tron only: TronScan" },
+          "apiKey": { "type": "string" },
+          "usdtContract": { "type": "string", "description": "ERC-20/TRC-20 contract, SPL mint or jetton master" },
+          "decimals": { "type": "integer" },
+          "minConfirmations": { "type": "integer", "description": "Acceptance depth" },
+          "finalityDepth": { "type": "integer", "description": "Blocks (slots, masterchain seqnos) after inclusion before a tracked payment is final" },
+          "moralisChainId": { "type": "string", "description": "Hex chain id when Moralis indexes the chain" }
+        }
+      },
+      "default": {
+        "TRON": { "family": "tron", "endpoint": "https://api.trongrid.io", "backupEndpoint": "https://api.tronscan.org", "usdtContract": "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", "decimals": 6, "minConfirmations": 12, "finalityDepth": 20 },
+        "ETH": { "family": "evm", "endpoint": "https://ethereum-rpc.publicnode.com", "usdtContract": "0xdAC17F958D2ee523a2206206994597C13D831ec7", "decimals": 6, "minConfirmations": 12, "finalityDepth": 64, "moralisChainId": "0x1" },
+        "BSC": { "family": "evm", "endpoint": "https://bsc-dataseed.bnbchain.org", "usdtContract": "0x55d398326f99059fF775485246999027B3197955", "decimals": 18, "minConfirmations": 12, "finalityDepth": 50, "moralisChainId": "0x38" },
+        "POLYGON": { "family": "evm", "endpoint": "https://polygon-rpc.com", "usdtContract": "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", "decimals": 6, "minConfirmations": 64, "finalityDepth": 256, "moralisChainId": "0x89" },
+        "ARBITRUM": { "family": "evm", "endpoint": "https://arb1.arbitrum.io/rpc", "usdtContract": "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", "decimals": 6, "minConfirmations": 20, "finalityDepth": 1200, "moralisChainId": "0xa4b1" },
+        "SOLANA": { "family": "solana", "endpoint": "https://api.mainnet-beta.solana.com", "usdtContract": "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", "decimals": 6, "minConfirmations": 32, "finalityDepth": 32 },
+        "TON": { "family": "ton", "endpoint": "https://toncenter.com/api/v3", "usdtContract": "EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs", "decimals": 6, "minConfirmations": 1, "finalityDepth": 1 }
+      }
+    },
+    "validation": {
+      "type": "object",
+      "properties": {
+        "maxPaymentAge": { "type": "integer", "default": 3600 },
+        "amountTolerancePercent": { "type": "number", "default": 0.1 },
+        "contractAccuracy": { "type": "boolean", "default": true },
+        "providerPriority": {
+          "type": "object",
+          "description": "Direct-chain providers tried in order per chain; native is the chain's registered verifier, and chains not listed use [native]",
+          "additionalProperties": { "type": "array", "items": { "enum": ["Moralis", "native"] } },
+          "default": {
+            "ETH": ["Moralis", "native"],
+            "BSC": ["Moralis", "native"],
+            "POLYGON": ["Moralis", "native"],
+            "ARBITRUM": ["Moralis", "native"]
+          }
         },
-        "tron": {
+        "payments": {
           "type": "object",
           "properties": {
-            "apiUrl": { "type": "string", "default": "https://api.trongrid.io" },
-            "backupUrl": { "type": "string", "default": "https://api.tronscan.org" },
-            "apiKey": { "type": "string" },
-            "usdtContract": { "type": "string", "default": "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t" }
+            "underpayment": { "enum": ["await_topup", "partial_fill", "reject"], "default": "await_topup" },
+            "topupWindowSeconds": { "type": "integer", "default": 1800 },
+            "maxProofsPerPayment": { "type": "integer", "default": 5 }
           }
         },
-        "ethereum": {
+        "finality": {
           "type": "object",
           "properties": {
-            "apiUrl": { "type": "string" },
-            "apiKey": { "type": "string" },
-            "usdtContract": { "type": "string" }
+            "pollIntervalSeconds": { "type": "integer", "default": 30 },
+            "dropAfterMisses": { "type": "integer", "minimum": 1, "default": 3, "description": "Consecutive polls without an inclusion before a tracked payment is reverted as tx.dropped" }
           }
         },
-        "bsc": {
+        "quorum": {
           "type": "object",
           "properties": {
-            "apiUrl": { "type": "string" },
-            "apiKey": { "type": "string" },
-            "usdtContract": { "type": "string" }
+            "enabled": { "type": "boolean", "default": true },
+            "thresholdUsdt": { "type": "number", "default": 10000 },
+            "required": { "type": "integer", "minimum": 2, "default": 2 },
+            "sources": {
+              "type": "object",
+              "description": "Per chain; a chain with fewer than required independent sources cannot accept direct proofs above thresholdUsdt",
+              "additionalProperties": { "type": "array", "items": { "enum": ["NOWPayments", "Moralis", "TronGrid", "TronScan", "native"] } },
+              "default": {
+                "TRON": ["NOWPayments", "TronGrid", "TronScan"],
+                "ETH": ["NOWPayments", "Moralis", "native"],
+                "BSC": ["NOWPayments", "Moralis", "native"],
+                "POLYGON": ["NOWPayments", "Moralis", "native"],
+                "ARBITRUM": ["NOWPayments", "Moralis", "native"],
+                "SOLANA": ["NOWPayments", "native"],
+                "TON": ["NOWPayments", "native"]
+              }
+            }
           }
-        }
-      }
-    },
-    "validation": {
-      "type": "object",
-      "properties": {
-        "minConfirmations": { "type": "integer", "default": 12 },
-        "maxPaymentAge": { "type": "integer", "default": 3600 },
-        "amountTolerancePercent": { "type": "number", "default": 0.1 },
-        "contractAccuracy": { "type": "boolean", "default": true },
+        },
         "timeout": { "type": "integer", "default": 30 }
       }
     },
@@ -44,6 +44,7 @@ export interface OrderClassified {
   intent: Intent;
   amount: number;
   listingId?: string;
+  quoteId?: string;  // passed through; Matching adopts the quote's reserved fills
   metadata?: {
     fromRole?: string;
     toRole?: string;
@@ -61,6 +62,7 @@ export interface OrderValidated {
   mode: 'BUY' | 'SELL' | 'TRANSFER';
   prepaid: boolean;
   evidence?: any;
+  quoteId?: string;
   ts: string;
 }
 
@@ -125,7 +127,7 @@ export class Classifier {
       ts: new Date().toISOString()
     });
     
-    await this.eventBus.publish(classified);
+    await this.eventBus.publish({ ...classified, quoteId: event.quoteId });
   }
 }
 
@@ -7,18 +7,20 @@ export const MatchingSpecCard: NodeInspectorContent = {
   headers: "Internal service - event-driven only, no direct HTTP headers.",
   
   logic: [
-    "1) Consume 'order.classified' event from event bus",
+    "1) Consume 'order.classified' event from event bus; under the event lock, skip events whose ingress status is CANCELLED (as AssetManager does)",
     "2) Load buyer and seller profiles from Marketplace User Registry (cache-first)",
-    "3) For BUY_TREASURY: allocate from treasury pool, create single fill",
+    "3) Quoted orders (quoteId): adopt the quote's reserved fills as-is (same matchIds and prices) and skip 4-6, extending each listing reservation to a normal match window; if the quote's expiresAt passed and cleanup already returned a reservation, re-reserve it at the quoted price or fail the order when the listing can no longer fill it; quotes without fills (SELL_MARKET, TRANSFER) take the intent path. For BUY_TREASURY: allocate from treasury pool, create single fill",
     "4) For BUY_MARKET: find listing by ID, check availability, reserve amount",
     "5) For SELL_MARKET: create new listing record with 48-hour expiration",
     "6) For TRANSFER: create direct P2P fill without counterparty matching",
     "7) Resolve vault IDs for both parties from registry",
     "8) Check if buyer requires payment proof (not prepaid)",
     "9) Create Fill record(s) with unique matchId per fill",
-    "10) Store match reservations in database with expiration",
+    "10) Store match reservations in database with expiration; cleanup also returns reservations of quotes that expired uncommitted",
     "11) Emit 'order.matched' with fill details",
-    "12) If buyer proof required, emit 'payment.requested'"
+    "12) If buyer proof required, emit 'payment.requested'",
+    "13) On 'order.cancelled' with reservations.released: mark the event's fills CANCELLED and return reserved amounts to listings/treasury",
+    "14) On 'payment.confirmed' with partialFill (admission partial fills arrive already reduced via order.validated.amount): shrink the fill to filledAmount and return the unpaid remainder of its reservation to the listing"
   ],
   
   typescript: `// Interfaces
@@ -30,6 +32,7 @@ export interface OrderClassified {
   intent: Intent;
   amount: number;
   listingId?: string;
+  quoteId?: string;
   from: string;
   to: string;
   ts: string;
@@ -45,7 +48,7 @@ export interface Fill {
   fillAmount: number;        // Amount being filled
   listingId?: string;        // Associated listing (if market)
   requiresBuyerProof: boolean;
-  status: 'PENDING' | 'RESERVED' | 'CONFIRMED' | 'EXPIRED';
+  status: 'PENDING' | 'RESERVED' | 'CONFIRMED' | 'EXPIRED' | 'CANCELLED';
   createdAt: Date;
   expiresAt: Date;
 }
@@ -95,42 +98,55 @@ export class MatchingService {
   ) {}
   
   async processClassifiedOrder(event: OrderClassified): Promise<void> {
-    const fills = await this.createFills(event);
-    
-    if (fills.length === 0) {
-      throw new Error(\`No fills created for \${event.eventId}\`);
-    }
-    
-    // Store reservations
-    await this.storeMatchReservations(fills);
-    
-    // Emit matched event
-    await this.eventBus.publish({
-      topic: 'order.matched',
-      eventId: event.eventId,
-      intent: event.intent,
-      fills,
-      totalAmount: fills.reduce((sum, f) => sum + f.fillAmount, 0),
-      ts: new Date().toISOString()
-    });
-    
-    // Emit payment requests if needed
-    for (const fill of fills) {
-      if (fill.requiresBuyerProof) {
-        await this.eventBus.publish({
-          topic: 'payment.requested',
-          eventId: event.eventId,
-          matchId: fill.matchId,
-          buyerId: fill.buyerId,
-          amount: fill.fillAmount,
-          paymentDeadline: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
-          ts: new Date().toISOString()
-        });
+    // Same guard as AssetManager: a cancel that landed after classification stops the order here
+    await this.db.withEventLock(event.eventId, async (tx) => {
+      const ingress = await tx.getEventIngress(event.eventId);
+      if (ingress?.status === 'CANCELLED') return;
+      
+      const fills = await this.createFills(event);
+      
+      if (fills.length === 0) {
+        throw new Error(\`No fills created for \${event.eventId}\`);
       }
-    }
+      
+      // Store reservations
+      await this.storeMatchReservations(fills);
+      
+      // Emit matched event
+      await this.eventBus.publish({
+        topic: 'order.matched',
+        eventId: event.eventId,
+        intent: event.intent,
+        fills,
+        totalAmount: fills.reduce((sum, f) => sum + f.fillAmount, 0),
+        ts: new Date().toISOString()
+      });
+      
+      // Emit payment requests if needed
+      for (const fill of fills) {
+        if (fill.requiresBuyerProof) {
+          await this.eventBus.publish({
+            topic: 'payment.requested',
+            eventId: event.eventId,
+            matchId: fill.matchId,
+            buyerId: fill.buyerId,
+            amount: fill.fillAmount,
+            paymentDeadline: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+            ts: new Date().toISOString()
+          });
+        }
+      }
+    });
   }
   
   private async createFills(event: OrderClassified): Promise<Fill[]> {
+    if (event.quoteId) {
+      return this.adoptQuotedFills(event);
+    }
+    return this.createFillsForIntent(event);
+  }
+  
+  private async createFillsForIntent(event: OrderClassified): Promise<Fill[]> {
     switch (event.intent) {
       case 'BUY_TREASURY':
         return this.createTreasuryFill(event);
@@ -143,6 +159,52 @@ export class MatchingService {
     }
   }
   
+  // Reuses the quote's matchIds and prices. A committed quote can still outlive its reservation
+  // (Matching runs after expiresAt and cleanup got there first), so lapsed ones are re-reserved
+  private async adoptQuotedFills(event: OrderClassified): Promise<Fill[]> {
+    const quote: Quote = await this.db.getQuote(event.quoteId!);
+    if (quote.fills.length === 0) {
+      return this.createFillsForIntent(event);
+    }
+    const buyer = await this.registry.getUser(event.from);
+    const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+    
+    return this.db.transaction(async (tx) => {
+      const fills: Fill[] = [];
+      for (const quoted of quote.fills) {
+        if (quoted.listingId) {
+          const reservation = await tx.getMatchReservationForUpdate(quoted.matchId);
+          if (reservation && !reservation.released) {
+            await tx.updateMatchReservation(quoted.matchId, { expiresAt });
+          } else {
+            const listing: Listing | null = await tx.getListingForUpdate(quoted.listingId);
+            if (!listing || !['ACTIVE', 'PARTIALLY_FILLED'].includes(listing.status) || listing.availableAmount < quoted.fillAmount) {
+              throw new Error(\`Quote \${quote.quoteId} lapsed and listing \${quoted.listingId} can no longer fill \${quoted.fillAmount}\`);
+            }
+            await tx.insertMatchReservation({ ...quoted, quoteId: quote.quoteId, expiresAt });
+          }
+        }
+        
+        const seller = quoted.listingId ? await this.registry.getUser(quoted.sellerId) : null;
+        fills.push({
+          matchId: quoted.matchId,
+          eventId: event.eventId,
+          buyerId: buyer.onliId,
+          buyerVault: buyer.vaultId,
+          sellerId: quoted.sellerId,
+          sellerVault: seller?.vaultId ?? 'treasury-vault',
+          fillAmount: quoted.fillAmount,
+          listingId: quoted.listingId,
+          requiresBuyerProof: !!quoted.listingId, // treasury issuance is prepaid, as in createTreasuryFill
+          status: 'RESERVED',
+          createdAt: new Date(),
+          expiresAt
+        });
+      }
+      return fills;
+    });
+  }
+  
   private async createTreasuryFill(event: OrderClassified): Promise<Fill[]> {
     const buyer = await this.registry.getUser(event.from);
     return [{
@@ -218,7 +280,7 @@ export class MatchingService {
         "subscribeTopics": {
           "type": "array",
           "items": { "type": "string" },
-          "default": ["order.classified"]
+          "default": ["order.classified", "order.cancelled", "payment.confirmed"]
         },
         "publishTopics": {
           "type": "array",
@@ -18,7 +18,10 @@ export const CashierSpecCard: NodeInspectorContent = {
     "9) Emit 'ledger.posted' event with posting details",
     "10) Handle reconciliation for failed/reversed transactions",
     "11) Maintain running balances cache for quick queries",
-    "12) Generate period-end closing entries if needed"
+    "12) Generate period-end closing entries if needed",
+    "13) On 'order.cancelled': payment.voided → void the open provider session; payment.refunded → post reversing journal and initiate USDT refund",
+    "14) On 'payment.reverted' (reorg after acceptance): post a reversing journal for each posting of the event (or just matchId) with idempotency key eventId:matchId:reverted; no refund — the USDT never settled",
+    "15) On 'payment.credited' (overpayment, partial-fill remainder, rejected underpayment): Dr assurance USDT_cash / Cr user USDT_credit_payable with idempotency key eventId:matchId:credit; the credit is refundable through the refund path in 13"
   ],
   
   typescript: `// Interfaces
@@ -27,6 +30,7 @@ export type AccountKind =
   | 'USDT_cash'
   | 'USDT_settlement_payable'
   | 'USDT_fee_income'
+  | 'USDT_credit_payable'
   | 'SPECIES_balance'
   | 'SPECIES_inventory'
   | 'SPECIES_in_transit';
@@ -145,6 +149,64 @@ export class CashierService {
     });
   }
   
+  async processPaymentCredited(event: PaymentCredited): Promise<void> {
+    const key = \`\${event.eventId}:\${event.matchId ?? 'admission'}:credit\`;
+    if (await this.isAlreadyPosted(key)) return;
+    
+    const journal: JournalPost = {
+      postingId: generateUUID(),
+      eventId: event.eventId,
+      matchId: event.matchId ?? 'admission',
+      lines: [
+        { account: { onliId: 'assurance', kind: 'USDT_cash' }, currency: 'USDT', amount: event.creditUsdt, side: 'Dr' },
+        { account: { onliId: event.onliId, kind: 'USDT_credit_payable' }, currency: 'USDT', amount: event.creditUsdt, side: 'Cr', memo: event.reason }
+      ],
+      postedAt: new Date(),
+      description: \`Refundable credit (\${event.reason}) - \${event.creditUsdt} USDT\`
+    };
+    this.validateBalanced(journal);
+    const postingId = await this.postToFirefly(journal);
+    await this.storePostingReference(key, postingId);
+    await this.updateBalanceCache(journal);
+  }
+  
+  // Mirror image of the original posting; SPECIES lines are undone by AssetManager's clawback
+  async processPaymentReverted(event: PaymentReverted): Promise<void> {
+    for (const original of await this.db.getPostings(event.eventId, event.matchId)) {
+      const key = \`\${original.eventId}:\${original.matchId}:reverted\`;
+      if (await this.isAlreadyPosted(key)) continue;
+      
+      const reversal: JournalPost = {
+        postingId: generateUUID(),
+        eventId: original.eventId,
+        matchId: original.matchId,
+        lines: original.lines.map(line => ({
+          ...line,
+          side: line.side === 'Dr' ? 'Cr' : 'Dr',
+          memo: \`Reversal (\${event.reason})\`
+        })),
+        postedAt: new Date(),
+        description: \`Reversal of \${original.postingId} - \${event.chain} tx \${event.txHash} \${event.reason}\`,
+        metadata: { reversalOf: original.postingId, txHash: event.txHash }
+      };
+      this.validateBalanced(reversal);
+      const postingId = await this.postToFirefly(reversal);
+      await this.storePostingReference(key, postingId);
+      await this.updateBalanceCache(reversal);
+      
+      await this.eventBus.publish({
+        topic: 'ledger.posted',
+        eventId: reversal.eventId,
+        matchId: reversal.matchId,
+        postingId,
+        accountsAffected: this.getAffectedAccounts(reversal),
+        totalDebit: this.sumDebits(reversal),
+        totalCredit: this.sumCredits(reversal),
+        ts: new Date().toISOString()
+      });
+    }
+  }
+  
   private createJournalEntries(event: PaymentConfirmed): JournalPost {
     const lines: JournalLine[] = [];
     
@@ -8,17 +8,18 @@ export const AssetManagerSpecCard: NodeInspectorContent = {
   
   logic: [
     "1) Consume 'payment.confirmed' or 'order.classified' (for TRANSFER) events",
-    "2) Resolve buyer and seller vault IDs from Marketplace User Registry",
+    "2) Resolve buyer and seller vault IDs from Marketplace User Registry; deliver partialFill.filledAmount instead of amount when the payment only covered part of the order",
     "3) For BUY_TREASURY: Call Onli Cloud Issue(recipient=buyerVault, amount)",
     "4) For BUY_MARKET: Call ChangeOwner(from=sellerLocker, to=buyerVault)",
     "5) For TRANSFER: Optional Ask2Receive, then ChangeOwner(from=sender, to=receiver)",
-    "6) Use idempotency key: eventId:matchId in X-Request-Id header",
+    "6) Use idempotency key: eventId:matchId in X-Request-Id header; hold the event lock and skip events already CANCELLED or REVERTED",
     "7) Implement retry logic with exponential backoff (max 3 retries)",
     "8) Handle Onli Cloud responses and error codes",
     "9) On success: emit 'ownership.changed' with assetReceiptId",
     "10) On failure: emit 'transfer.failed' with specific reason",
     "11) Store operation results for audit trail",
-    "12) Update cache with new ownership state"
+    "12) Update cache with new ownership state",
+    "13) On 'payment.reverted': under the event lock mark the event REVERTED (undelivered fills are then skipped by 6) and claw back delivered fills with ChangeOwner(from=recipient, to=original owner) keyed eventId:matchId:reversal → 'ownership.changed' with reversalOf; if Onli Cloud refuses → 'transfer.failed' reversal.failed for manual recovery"
   ],
   
   typescript: `// Interfaces
@@ -34,6 +35,7 @@ export interface PaymentConfirmed {
   amount: number;
   buyerVault?: string;
   sellerVault?: string;
+  partialFill?: { requestedAmount: number; filledAmount: number };
   ts: string;
 }
 
@@ -56,6 +58,7 @@ export interface OwnershipChanged {
   from?: string;
   to: string;
   amount: number;
+  reversalOf?: string;  // assetReceiptId clawed back after 'payment.reverted'
   onliCloudResponse?: {
     issueId?: string;
     evolveId?: string;
@@ -77,7 +80,8 @@ export interface TransferFailed {
     | 'consent.timeout'
     | 'provider.unavailable'
     | 'insufficient.balance'
-    | 'vault.not_found';
+    | 'vault.not_found'
+    | 'reversal.failed';
   details?: any;
   ts: string;
 }
@@ -115,7 +119,8 @@ export class AssetManager {
     private registry: MarketplaceUserRegistry,
     private eventBus: EventBus,
     private cache: CacheService,
-    private retryPolicy: RetryPolicy
+    private retryPolicy: RetryPolicy,
+    private db: Database
   ) {}
   
   async processPaymentConfirmed(event: PaymentConfirmed): Promise<void> {
@@ -163,6 +168,39 @@ export class AssetManager {
     }
   }
   
+  async processPaymentReverted(event: PaymentReverted): Promise<void> {
+    await this.db.withEventLock(event.eventId, async (tx) => {
+      await tx.updateEventIngress(event.eventId, { status: 'REVERTED' });
+      
+      for (const delivery of await tx.listDeliveries(event.eventId, event.matchId)) {
+        try {
+          const result = await this.executeReversal(delivery, \`\${delivery.eventId}:\${delivery.matchId}:reversal\`);
+          await this.eventBus.publish({
+            topic: 'ownership.changed',
+            eventId: delivery.eventId,
+            matchId: delivery.matchId,
+            assetReceiptId: result.assetReceiptId,
+            operation: 'ChangeOwner',
+            from: delivery.to,
+            to: delivery.from ?? 'treasury-vault',
+            amount: delivery.amount,
+            reversalOf: delivery.assetReceiptId,
+            ts: new Date().toISOString()
+          });
+        } catch (error) {
+          await this.eventBus.publish({
+            topic: 'transfer.failed',
+            eventId: delivery.eventId,
+            matchId: delivery.matchId,
+            reason: 'reversal.failed',
+            details: error.message,
+            ts: new Date().toISOString()
+          });
+        }
+      }
+    });
+  }
+  
   private async executeTreasuryIssue(event: any, idempotencyKey: string) {
     return await this.retryPolicy.execute(async () => {
       const response = await this.onliCloud.issue({
@@ -253,7 +291,7 @@ export class AssetManager {
         "subscribeTopics": {
           "type": "array",
           "items": { "type": "string" },
-          "default": ["payment.confirmed", "order.classified"]
+          "default": ["payment.confirmed", "order.classified", "payment.reverted"]
         },
         "publishTopics": {
           "type": "array",
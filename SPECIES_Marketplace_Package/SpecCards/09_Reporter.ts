@@ -10,7 +10,7 @@ export const ReporterSpecCard: NodeInspectorContent = {
   ],
   
   logic: [
-    "1) Subscribe to 'order.completed' and 'ledger.posted' events",
+    "1) Subscribe to 'order.completed', 'order.cancelled', 'payment.reverted' and 'ledger.posted' events (cancelled events get a CANCELLED receipt, reorged payments a REVERTED one)",
     "2) Build materialized views for fast querying",
     "3) Maintain denormalized read models for receipts and statements",
     "4) For receipt requests: retrieve from cache or database",
@@ -10,7 +10,7 @@ export const ConfigurationModuleSpecCard: NodeInspectorContent = {
     "1) Load base configuration from files (YAML/JSON)",
     "2) Apply environment variable overrides",
     "3) Fetch dynamic configuration from database if enabled",
-    "4) Sync user registry from ProfileTray on schedule (every 5 minutes)",
+    "4) Sync user registry from ProfileTray on schedule (every 5 minutes) or for a single user on admin request; status drift is written to user_status_history and published as 'user.status_changed', but admin suspensions/revocations are never overridden by sync; a status the sync changes is marked statusSource 'profileTray', so an admin reactivation does not turn a later ProfileTray suspension into an admin hold",
     "5) Calculate fee amounts based on transaction type and amount",
     "6) Provide fee routing destinations (treasury, operator, market maker)",
     "7) Monitor configuration changes and trigger reloads",
@@ -46,27 +46,9 @@ export interface AppConfig {
         secret: string;
         webhookSecret: string;
       };
-      tron: {
-        enabled: boolean;
-        apiUrl: string;
-        apiKey: string;
-        usdtContract: string;
-      };
-      ethereum: {
-        enabled: boolean;
-        apiUrl: string;
-        apiKey: string;
-        usdtContract: string;
-      };
-      bsc: {
-        enabled: boolean;
-        apiUrl: string;
-        apiKey: string;
-        usdtContract: string;
-      };
     };
+    chains: Record<Chain, ChainConfig>;  // Validator verifier registry; confirmations are per chain
     validation: {
-      minConfirmations: number;
       maxPaymentAge: number;
       tolerancePercent: number;
       timeoutSeconds: number;
@@ -210,7 +192,7 @@ export class ConfigurationModule {
       
       // Update local registry
       for (const user of users) {
-        await this.updateMarketplaceUser(user);
+        await this.applyProfileTrayUser(user);
       }
       
       // Update sync timestamp
@@ -222,6 +204,36 @@ export class ConfigurationModule {
     }
   }
   
+  // Forced re-sync of one user (admin API); same path as the scheduled sync
+  async syncUser(onliId: string): Promise<MarketplaceUser> {
+    const user = await this.profileTray.getUser(onliId, { appSymbol: this.config.appSymbol });
+    return this.applyProfileTrayUser(user);
+  }
+  
+  private async applyProfileTrayUser(user: ProfileTrayUser): Promise<MarketplaceUser> {
+    return this.db.transaction(async (tx) => {
+      const before = await tx.getMarketplaceUserForUpdate(user.onliId);
+      const after = await this.updateMarketplaceUser({ ...user, ...syncedUserStatus(before, user.status) }, tx);
+      
+      if (before && before.status !== after.status) {
+        const change: UserStatusChange = {
+          topic: 'user.status_changed',
+          changeId: generateUUID(),
+          onliId: user.onliId,
+          from: before.status,
+          to: after.status,
+          reason: 'ProfileTray sync',
+          actor: 'profileTray-sync',
+          source: 'profileTray',
+          ts: new Date().toISOString()
+        };
+        await tx.insertUserStatusHistory(change);
+        await tx.insertOutbox(change);
+      }
+      return after;
+    });
+  }
+  
   calculateFees(transaction: any): FeeBreakdown {
     return this.feeModule.calculateMatchFee(
       transaction.intent,
@@ -234,6 +246,21 @@ export class ConfigurationModule {
   }
 }
 
+// Admin holds (a non-ACTIVE status set by an admin) survive sync. Any status the sync itself
+// changes is owned by ProfileTray from then on, so a later ProfileTray update can lift it
+export function syncedUserStatus(
+  before: Pick<MarketplaceUser, 'status' | 'statusSource'> | null,
+  incoming: UserStatus
+): Pick<MarketplaceUser, 'status' | 'statusSource'> {
+  if (before?.statusSource === 'admin' && before.status !== 'ACTIVE') return before;
+  if (!before || before.status !== incoming) return { status: incoming, statusSource: 'profileTray' };
+  return before;
+}
+
+// Rounds a USDT amount to 6 decimals, the unit all ledgers and quotes use; on-chain amounts are
+// normalised to it first whatever the token's own decimals (18 on BSC)
+export const toUsdt = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
 // Fee calculation implementation
 export class FeeCalculator implements FeeModule {
   constructor(private config: FeeConfiguration) {}